@@ -3,33 +3,28 @@ import path from 'path';
 import fs from 'fs/promises';
 import { promisify } from 'util';
 import { exec } from 'child_process';
+import { ASPECT_RATIO_CONFIGS } from './types';
+import { parseAss } from './utils/assParser';
+import { lintAss } from './utils/assLinter';
+import { FONTS_DIR, getAvailableFontFamilies } from './utils/fontCatalog';
 
 const execAsync = promisify(exec);
 
-async function getSubtitleDuration(assFilePath: string): Promise<number> {
+// Lint the script for this render and return its duration (last line plus 2 seconds of padding)
+async function checkSubtitles(assFilePath: string): Promise<number> {
   try {
-    const content = await fs.readFile(assFilePath, 'utf-8');
-    const lines = content.split('\n');
-    
-    let maxEndTime = 0;
-    
-    // Parse dialogue lines to find the latest end time
-    for (const line of lines) {
-      if (line.startsWith('Dialogue:')) {
-        // Extract start and end times
-        const parts = line.split(',');
-        if (parts.length >= 3) {
-          const endTimeStr = parts[2]?.trim() || '';
-          const endTime = parseTimeToSeconds(endTimeStr);
-          if (endTime > maxEndTime) {
-            maxEndTime = endTime;
-          }
-        }
-      }
+    const document = parseAss(await fs.readFile(assFilePath, 'utf-8'));
+    const { width, height } = ASPECT_RATIO_CONFIGS['9:16']!;
+    const issues = lintAss(document, {
+      availableFonts: await getAvailableFontFamilies(),
+      outputs: [{ name: 'vertical', width, height }]
+    });
+    for (const issue of issues) {
+      console.warn(`Subtitle warning: ${issue.message}`);
     }
-    
-    // Add 2 seconds padding
-    return maxEndTime + 2;
+
+    const dialogueEnds = document.events.filter(event => event.type === 'Dialogue').map(event => event.end);
+    return Math.max(0, ...dialogueEnds) + 2;
   } catch (error) {
     console.error('Error parsing ASS file for duration:', error);
     // Default to 30 seconds if parsing fails
@@ -37,19 +32,6 @@ async function getSubtitleDuration(assFilePath: string): Promise<number> {
   }
 }
 
-function parseTimeToSeconds(timeStr: string): number {
-  // Parse time format H:MM:SS.CC
-  const match = timeStr.match(/(\d+):(\d{2}):(\d{2})\.(\d{2})/);
-  if (!match) return 0;
-  
-  const hours = parseInt(match[1] || '0');
-  const minutes = parseInt(match[2] || '0');
-  const seconds = parseInt(match[3] || '0');
-  const centiseconds = parseInt(match[4] || '0');
-  
-  return hours * 3600 + minutes * 60 + seconds + centiseconds / 100;
-}
-
 async function generateVerticalVideo(assFilePath: string, outputPath?: string): Promise<void> {
   // Validate input file exists
   try {
@@ -64,11 +46,11 @@ async function generateVerticalVideo(assFilePath: string, outputPath?: string):
   const finalOutputPath = outputPath || `${inputFileName}_vertical.mp4`;
   
   // Get duration from subtitle file
-  const duration = await getSubtitleDuration(assFilePath);
+  const duration = await checkSubtitles(assFilePath);
   console.log(`Detected subtitle duration: ${duration}s`);
 
   // Get fonts directory
-  const fontsDir = path.join(process.cwd(), 'fonts');
+  const fontsDir = FONTS_DIR;
   
   // Check if fonts directory exists
   try {
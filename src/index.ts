@@ -3,11 +3,14 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import { logger } from './utils/logger';
-import { VideoProcessor } from './services/videoProcessor';
-import { ProcessingError, ProcessVideoErrorResponse } from './types';
+import { JobManager } from './services/jobManager';
+import { buildErrorResponse } from './utils/errorResponse';
+import { getStorageProvider, LocalStorageProvider, StorageProvider } from './services/storage';
+import { JOB_STATUSES, JobStatus, ProcessingError, ProcessVideoErrorResponse } from './types';
 
 const app = express();
 const port = process.env.PORT || 3000;
+const jobManager = new JobManager();
 
 // Middleware
 app.use(helmet());
@@ -90,76 +93,210 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Rendered outputs, when stored on local disk (no authentication, like blob URLs).
+// A misconfigured provider stops startup here rather than failing every job
+let storageProvider: StorageProvider;
+try {
+  storageProvider = getStorageProvider();
+} catch (error) {
+  logger.error('Failed to initialize storage provider', error as Error);
+  process.exit(1);
+}
+if (storageProvider instanceof LocalStorageProvider) {
+  app.use('/storage', express.static(storageProvider.rootDir));
+}
+
 // Main video processing endpoint (protected with API key)
+// Returns 202 with a job ID by default; pass ?sync=true to wait for the result
 app.post('/process-video', authenticateApiKey, async (req, res) => {
   const startTime = Date.now();
   const requestId = req.headers['x-request-id'] || 'unknown';
+  const syncMode = req.query.sync === 'true';
   
   logger.info('Received video processing request', {
     requestId,
+    syncMode,
     userAgent: req.headers['user-agent'],
     contentLength: req.headers['content-length']
   });
 
+  if (jobManager.isShuttingDown()) {
+    res.status(503).json({
+      status: 'failed',
+      error: {
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'Server is shutting down',
+        details: 'No new jobs are accepted while in-flight jobs are drained',
+        stage: 'queue'
+      }
+    });
+    return;
+  }
+
+  let job;
   try {
-    // Create video processor instance
-    const processor = new VideoProcessor();
-    
-    // Process video (this is the synchronous operation)
-    const result = await processor.processVideo(req.body);
-    
+    // Every request goes through the job queue so the concurrency limit applies
+    job = jobManager.submit(req.body);
+  } catch (error) {
+    logger.warn('Video processing job rejected', {
+      requestId,
+      error: (error as Error).message
+    });
+
+    const errorResponse = buildErrorResponse(error);
+    const statusCode = error instanceof ProcessingError ? getHttpStatusCode(error.code) : 500;
+    res.status(statusCode).json(errorResponse);
+    return;
+  }
+
+  if (!syncMode) {
+    res.status(202).json({
+      status: job.status,
+      jobId: job.jobId,
+      statusUrl: `/jobs/${job.jobId}`
+    });
+    return;
+  }
+
+  // Synchronous mode: hold the connection open until the job finishes
+  const finishedJob = await jobManager.waitForCompletion(job.jobId);
+  const processingTime = Date.now() - startTime;
+
+  if (finishedJob.status === 'completed' && finishedJob.result) {
+    const result = finishedJob.result;
+
     // Log successful completion
-    const processingTime = Date.now() - startTime;
     logger.info('Video processing request completed successfully', {
       requestId,
+      jobId: job.jobId,
       processingTime,
-      muxAssetId: result.muxAssetId,
-      muxPlaybackId: result.muxPlaybackId,
+      renditionCount: result.renditions.length,
       duration: result.duration
     });
 
     // Return successful response
     res.status(200).json(result);
+    return;
+  }
 
-  } catch (error) {
-    const processingTime = Date.now() - startTime;
-    
-    logger.error('Video processing request failed', error as Error, {
-      requestId,
-      processingTime,
-      body: req.body
+  const errorResponse: ProcessVideoErrorResponse = {
+    status: 'failed',
+    error: finishedJob.error!
+  };
+
+  logger.error('Video processing request failed', {
+    requestId,
+    jobId: job.jobId,
+    processingTime,
+    error: errorResponse.error
+  });
+
+  // Different HTTP status codes based on error type
+  res.status(getHttpStatusCode(errorResponse.error.code)).json(errorResponse);
+});
+
+// Job status endpoints (protected with API key)
+app.get('/jobs', authenticateApiKey, (req, res) => {
+  const status = req.query.status;
+  if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+    res.status(400).json({
+      status: 'failed',
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid job status filter',
+        details: `status must be one of: ${JOB_STATUSES.join(', ')}`,
+        stage: 'routing'
+      }
+    });
+    return;
+  }
+
+  res.status(200).json({
+    jobs: jobManager.list(status as JobStatus | undefined)
+  });
+});
+
+app.get('/jobs/:id', authenticateApiKey, (req, res) => {
+  const job = jobManager.get(req.params.id!);
+
+  if (!job) {
+    res.status(404).json({
+      status: 'failed',
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Job not found',
+        details: `No job exists with ID ${req.params.id}`,
+        stage: 'routing'
+      }
     });
+    return;
+  }
+
+  res.status(200).json(job);
+});
+
+// Live job progress over Server-Sent Events (protected with API key)
+app.get('/jobs/:id/events', authenticateApiKey, (req, res) => {
+  const jobId = req.params.id!;
+  const job = jobManager.get(jobId);
+
+  if (!job) {
+    res.status(404).json({
+      status: 'failed',
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Job not found',
+        details: `No job exists with ID ${jobId}`,
+        stage: 'routing'
+      }
+    });
+    return;
+  }
 
-    // Handle ProcessingError with detailed response
-    if (error instanceof ProcessingError) {
-      const errorResponse: ProcessVideoErrorResponse = {
-        status: 'failed',
-        error: {
-          code: error.code,
-          message: error.message,
-          details: error.details || 'No additional details available',
-          stage: error.stage
-        }
-      };
-
-      // Different HTTP status codes based on error type
-      const statusCode = getHttpStatusCode(error.code);
-      res.status(statusCode).json(errorResponse);
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Disable proxy buffering (nginx)
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const isFinished = (status: JobStatus) => status === 'completed' || status === 'failed';
+
+  // Start with the current state so late subscribers can render immediately
+  send('job', job);
+  if (isFinished(job.status)) {
+    res.end();
+    return;
+  }
+
+  // Keep idle connections alive through proxies
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, 15000);
+
+  const unsubscribe = jobManager.subscribe(jobId, event => {
+    if (event.type === 'job') {
+      send('job', event.job);
+      if (isFinished(event.job.status)) {
+        close();
+        res.end();
+      }
     } else {
-      // Handle unexpected errors
-      const errorResponse: ProcessVideoErrorResponse = {
-        status: 'failed',
-        error: {
-          code: 'INTERNAL_SERVER_ERROR' as any,
-          message: 'An unexpected error occurred during video processing',
-          details: (error as Error).message,
-          stage: 'unknown' as any
-        }
-      };
-
-      res.status(500).json(errorResponse);
+      send(event.type, event);
     }
-  }
+  });
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+
+  req.on('close', close);
 });
 
 // Error handling middleware
@@ -213,24 +350,45 @@ function getHttpStatusCode(errorCode: string): number {
   }
 }
 
-// Graceful shutdown
+// Graceful shutdown: stop accepting work and drain in-flight jobs
+let server: ReturnType<typeof app.listen> | undefined;
+let shutdownStarted = false;
+
+const shutdown = async (signal: string) => {
+  if (shutdownStarted) {
+    logger.warn(`${signal} received again, forcing exit`);
+    process.exit(1);
+  }
+  shutdownStarted = true;
+
+  logger.info(`${signal} received, shutting down gracefully`);
+  server?.close();
+  const drained = await jobManager.shutdown();
+  process.exit(drained ? 0 : 1);
+};
+
 process.on('SIGTERM', () => {
-  logger.info('SIGTERM received, shutting down gracefully');
-  process.exit(0);
+  void shutdown('SIGTERM');
 });
 
 process.on('SIGINT', () => {
-  logger.info('SIGINT received, shutting down gracefully');
-  process.exit(0);
+  void shutdown('SIGINT');
 });
 
-// Start server
-app.listen(port, () => {
-  logger.info('FFmpeg Video Processor started', {
-    port,
-    nodeEnv: process.env.NODE_ENV,
-    version: process.env.npm_package_version || '1.0.0'
+// Recover persisted jobs, then start server
+jobManager.initialize()
+  .then(() => {
+    server = app.listen(port, () => {
+      logger.info('FFmpeg Video Processor started', {
+        port,
+        nodeEnv: process.env.NODE_ENV,
+        version: process.env.npm_package_version || '1.0.0'
+      });
+    });
+  })
+  .catch(error => {
+    logger.error('Failed to initialize job manager', error as Error);
+    process.exit(1);
   });
-});
 
 export default app; 
\ No newline at end of file
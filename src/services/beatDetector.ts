@@ -0,0 +1,294 @@
+import { spawn } from 'child_process';
+import { ProcessLogger } from '../utils/logger';
+import { trackProcessCommand } from '../utils/processCommands';
+import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../types';
+
+// Analysis parameters: mono PCM at a low sample rate is plenty for onset detection
+const SAMPLE_RATE = 11025;
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 256;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+// Tempo estimates are biased towards this value to avoid half/double-time picks
+const PREFERRED_BPM = 120;
+const BEATS_PER_BAR = 4;
+
+export interface BeatAnalysis {
+  tempo: number;
+  beats: number[];
+  bars: number[];
+}
+
+export class BeatDetector {
+  private logger: ProcessLogger;
+  private processId: string;
+
+  constructor(processId: string) {
+    this.logger = new ProcessLogger(processId);
+    this.processId = processId;
+  }
+
+  /**
+   * Estimate the song's tempo and beat grid from an onset-strength envelope.
+   * Returns beat and bar (downbeat) timestamps in seconds.
+   */
+  async detectBeats(songPath: string): Promise<BeatAnalysis> {
+    const startTime = Date.now();
+    this.logger.logStage('Beat Detection', 'start', { songPath });
+
+    const samples = await this.decodePcm(songPath);
+    const envelope = this.computeOnsetEnvelope(samples);
+    const framesPerSecond = SAMPLE_RATE / HOP_SIZE;
+
+    const initialPeriod = this.estimatePeriod(envelope, framesPerSecond);
+    const initialPhase = this.estimatePhase(envelope, initialPeriod);
+    const { period, phase } = this.refineGrid(envelope, initialPeriod, initialPhase);
+
+    const beatFrames: number[] = [];
+    for (let frame = phase; frame < envelope.length; frame += period) {
+      beatFrames.push(frame);
+    }
+
+    const downbeatOffset = this.estimateDownbeatOffset(envelope, beatFrames);
+    // Energy rises once the onset enters the analysis window, so report the
+    // window's end rather than its start
+    const windowLatency = FRAME_SIZE / SAMPLE_RATE;
+    const beats = beatFrames.map(frame => this.round(frame / framesPerSecond + windowLatency));
+    const bars = beats.filter((_, index) => index % BEATS_PER_BAR === downbeatOffset);
+    const tempo = this.round((60 * framesPerSecond) / period);
+
+    this.logger.logTiming('Beat Detection', startTime, {
+      tempo,
+      beatCount: beats.length,
+      barCount: bars.length
+    });
+
+    return { tempo, beats, bars };
+  }
+
+  private decodePcm(songPath: string): Promise<Float32Array> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let stderr = '';
+
+      const ffmpegProcess = spawn('ffmpeg', [
+        '-v', 'error',
+        '-i', songPath,
+        '-ac', '1',
+        '-ar', SAMPLE_RATE.toString(),
+        '-f', 'f32le',
+        'pipe:1'
+      ]);
+      const untrack = trackProcessCommand(this.processId, ffmpegProcess);
+
+      ffmpegProcess.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      ffmpegProcess.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      ffmpegProcess.on('error', error => {
+        untrack();
+        reject(this.wrapError(error.message));
+      });
+      ffmpegProcess.on('close', code => {
+        untrack();
+        if (code !== 0) {
+          reject(this.wrapError(stderr || `ffmpeg exited with code ${code}`));
+          return;
+        }
+
+        const buffer = Buffer.concat(chunks);
+        const sampleCount = Math.floor(buffer.length / 4);
+        const samples = new Float32Array(sampleCount);
+        for (let i = 0; i < sampleCount; i++) {
+          samples[i] = buffer.readFloatLE(i * 4);
+        }
+        resolve(samples);
+      });
+    });
+  }
+
+  /**
+   * Half-wave rectified difference of log frame energy, which peaks on note
+   * onsets and drum hits.
+   */
+  private computeOnsetEnvelope(samples: Float32Array): Float32Array {
+    const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+    const envelope = new Float32Array(frameCount);
+    let previousEnergy = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+      const start = frame * HOP_SIZE;
+      let sum = 0;
+      for (let i = start; i < start + FRAME_SIZE; i++) {
+        const sample = samples[i]!;
+        sum += sample * sample;
+      }
+
+      const energy = Math.log(1 + 1000 * (sum / FRAME_SIZE));
+      envelope[frame] = Math.max(0, energy - previousEnergy);
+      previousEnergy = energy;
+    }
+
+    // Remove the local mean so sustained loud passages don't dominate
+    const window = 16;
+    const normalized = new Float32Array(frameCount);
+    for (let frame = 0; frame < frameCount; frame++) {
+      let localSum = 0;
+      let count = 0;
+      for (let i = Math.max(0, frame - window); i <= Math.min(frameCount - 1, frame + window); i++) {
+        localSum += envelope[i]!;
+        count++;
+      }
+      normalized[frame] = Math.max(0, envelope[frame]! - localSum / count);
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Pick the beat period (in frames) with the strongest autocorrelation,
+   * weighted towards PREFERRED_BPM on a log-tempo scale.
+   */
+  private estimatePeriod(envelope: Float32Array, framesPerSecond: number): number {
+    const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+    const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+
+    if (envelope.length <= maxLag * 2) {
+      throw this.wrapError('Song is too short for beat detection');
+    }
+
+    let bestLag = minLag;
+    let bestScore = -Infinity;
+
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let correlation = 0;
+      for (let i = 0; i + lag < envelope.length; i++) {
+        correlation += envelope[i]! * envelope[i + lag]!;
+      }
+      correlation /= envelope.length - lag;
+
+      const bpm = (60 * framesPerSecond) / lag;
+      const octaves = Math.log2(bpm / PREFERRED_BPM);
+      const score = correlation * Math.exp(-0.5 * octaves * octaves);
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+
+    // Refine to a fractional lag with parabolic interpolation around the peak
+    const scoreAt = (lag: number) => {
+      let correlation = 0;
+      for (let i = 0; i + lag < envelope.length; i++) {
+        correlation += envelope[i]! * envelope[i + lag]!;
+      }
+      return correlation / (envelope.length - lag);
+    };
+    const left = scoreAt(bestLag - 1);
+    const center = scoreAt(bestLag);
+    const right = scoreAt(bestLag + 1);
+    const denominator = left - 2 * center + right;
+    const adjustment = denominator !== 0 ? (0.5 * (left - right)) / denominator : 0;
+
+    return bestLag + Math.max(-0.5, Math.min(0.5, adjustment));
+  }
+
+  // Pick the grid offset whose beats land on the most onset energy
+  private estimatePhase(envelope: Float32Array, period: number): number {
+    let bestPhase = 0;
+    let bestScore = -Infinity;
+
+    for (let phase = 0; phase < period; phase++) {
+      let score = 0;
+      for (let frame = phase; frame < envelope.length; frame += period) {
+        score += envelope[Math.round(frame)] || 0;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestPhase = phase;
+      }
+    }
+
+    return bestPhase;
+  }
+
+  /**
+   * Small tempo errors accumulate over a whole song, so fit a line through the
+   * onset peaks nearest to each predicted beat to correct period and phase.
+   */
+  private refineGrid(envelope: Float32Array, period: number, phase: number): { period: number; phase: number } {
+    const searchRadius = Math.floor(period / 4);
+    const indices: number[] = [];
+    const peaks: number[] = [];
+
+    let beatIndex = 0;
+    for (let frame = phase; frame < envelope.length; frame += period, beatIndex++) {
+      let peakFrame = -1;
+      let peakValue = 0;
+      for (let i = Math.max(0, Math.round(frame) - searchRadius); i <= Math.min(envelope.length - 1, Math.round(frame) + searchRadius); i++) {
+        if (envelope[i]! > peakValue) {
+          peakValue = envelope[i]!;
+          peakFrame = i;
+        }
+      }
+      if (peakFrame >= 0) {
+        indices.push(beatIndex);
+        peaks.push(peakFrame);
+      }
+    }
+
+    if (indices.length < 8) {
+      return { period, phase };
+    }
+
+    // Least-squares fit: peakFrame = phase + index * period
+    const count = indices.length;
+    const meanIndex = indices.reduce((sum, value) => sum + value, 0) / count;
+    const meanPeak = peaks.reduce((sum, value) => sum + value, 0) / count;
+    let covariance = 0;
+    let variance = 0;
+    for (let i = 0; i < count; i++) {
+      covariance += (indices[i]! - meanIndex) * (peaks[i]! - meanPeak);
+      variance += (indices[i]! - meanIndex) ** 2;
+    }
+
+    const fittedPeriod = covariance / variance;
+    // Reject fits that wandered far from the autocorrelation estimate
+    if (!Number.isFinite(fittedPeriod) || Math.abs(fittedPeriod - period) > period * 0.05) {
+      return { period, phase };
+    }
+
+    let fittedPhase = meanPeak - fittedPeriod * meanIndex;
+    while (fittedPhase < 0) {
+      fittedPhase += fittedPeriod;
+    }
+
+    return { period: fittedPeriod, phase: fittedPhase };
+  }
+
+  // Downbeats are assumed to be the beat position within the bar that carries the most energy
+  private estimateDownbeatOffset(envelope: Float32Array, beatFrames: number[]): number {
+    const scores = new Array<number>(BEATS_PER_BAR).fill(0);
+    beatFrames.forEach((frame, index) => {
+      scores[index % BEATS_PER_BAR]! += envelope[Math.round(frame)] || 0;
+    });
+
+    return scores.indexOf(Math.max(...scores));
+  }
+
+  private round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
+
+  private wrapError(details: string): ProcessingError {
+    this.logger.logStage('Beat Detection', 'error', { error: details });
+    return new ProcessingError(
+      ProcessingErrorCode.METADATA_EXTRACTION_ERROR,
+      ProcessingStage.METADATA_EXTRACTION,
+      'Failed to detect song beats',
+      details
+    );
+  }
+}
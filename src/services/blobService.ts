@@ -1,24 +1,15 @@
-import { put, del } from '@vercel/blob';
 import fs from 'fs/promises';
 import { ProcessLogger } from '../utils/logger';
+import { getStorageProvider, StorageProvider } from './storage';
 import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../types';
 
 export class BlobService {
   private logger: ProcessLogger;
-  private token: string;
+  private storage: StorageProvider;
 
   constructor(processId: string) {
     this.logger = new ProcessLogger(processId);
-    this.token = process.env.BLOB_READ_WRITE_TOKEN || '';
-    
-    if (!this.token) {
-      throw new ProcessingError(
-        ProcessingErrorCode.VALIDATION_ERROR,
-        ProcessingStage.VALIDATION,
-        'BLOB_READ_WRITE_TOKEN environment variable is required',
-        'Missing Vercel Blob token'
-      );
-    }
+    this.storage = getStorageProvider();
   }
 
   async uploadVideo(
@@ -30,41 +21,36 @@ export class BlobService {
     this.logger.logStage('Video Upload', 'start', { localFilePath, blobPath });
 
     try {
-      // Read the file
-      const fileBuffer = await fs.readFile(localFilePath);
       const fileStats = await fs.stat(localFilePath);
       
-      this.logger.info('Uploading video to Vercel Blob', {
+      this.logger.info('Uploading video to storage', {
+        provider: this.storage.name,
         localFilePath,
         blobPath,
         fileSize: fileStats.size,
         contentType
       });
 
-      // Upload to Vercel Blob
-      const blob = await put(blobPath, fileBuffer, {
-        access: 'public',
-        token: this.token,
-        contentType
-      });
+      const url = await this.storage.upload(localFilePath, blobPath, contentType);
 
       this.logger.logTiming('Video Upload', startTime, {
-        url: blob.url,
+        url,
         fileSize: fileStats.size,
         blobPath
       });
 
-      return blob.url;
+      return url;
 
     } catch (error) {
-      this.logger.error('Failed to upload video to Vercel Blob', error as Error, {
+      this.logger.error('Failed to upload video to storage', error as Error, {
+        provider: this.storage.name,
         localFilePath,
         blobPath
       });
       throw new ProcessingError(
         ProcessingErrorCode.UPLOAD_FAILED,
         ProcessingStage.OUTPUT_UPLOAD,
-        'Failed to upload video to Vercel Blob storage',
+        `Failed to upload video to ${this.storage.name} storage`,
         (error as Error).message
       );
     }
@@ -79,41 +65,66 @@ export class BlobService {
     this.logger.logStage('Thumbnail Upload', 'start', { localFilePath, blobPath });
 
     try {
-      // Read the file
-      const fileBuffer = await fs.readFile(localFilePath);
       const fileStats = await fs.stat(localFilePath);
       
-      this.logger.info('Uploading thumbnail to Vercel Blob', {
+      this.logger.info('Uploading thumbnail to storage', {
+        provider: this.storage.name,
         localFilePath,
         blobPath,
         fileSize: fileStats.size,
         contentType
       });
 
-      // Upload to Vercel Blob
-      const blob = await put(blobPath, fileBuffer, {
-        access: 'public',
-        token: this.token,
-        contentType
-      });
+      const url = await this.storage.upload(localFilePath, blobPath, contentType);
 
       this.logger.logTiming('Thumbnail Upload', startTime, {
-        url: blob.url,
+        url,
         fileSize: fileStats.size,
         blobPath
       });
 
-      return blob.url;
+      return url;
 
     } catch (error) {
-      this.logger.error('Failed to upload thumbnail to Vercel Blob', error as Error, {
+      this.logger.error('Failed to upload thumbnail to storage', error as Error, {
+        provider: this.storage.name,
         localFilePath,
         blobPath
       });
       throw new ProcessingError(
         ProcessingErrorCode.UPLOAD_FAILED,
         ProcessingStage.OUTPUT_UPLOAD,
-        'Failed to upload thumbnail to Vercel Blob storage',
+        `Failed to upload thumbnail to ${this.storage.name} storage`,
+        (error as Error).message
+      );
+    }
+  }
+
+  async uploadCaption(
+    localFilePath: string,
+    blobPath: string,
+    contentType: string
+  ): Promise<string> {
+    const startTime = Date.now();
+    this.logger.logStage('Caption Upload', 'start', { localFilePath, blobPath });
+
+    try {
+      const url = await this.storage.upload(localFilePath, blobPath, contentType);
+
+      this.logger.logTiming('Caption Upload', startTime, { url, blobPath });
+
+      return url;
+
+    } catch (error) {
+      this.logger.error('Failed to upload caption file to storage', error as Error, {
+        provider: this.storage.name,
+        localFilePath,
+        blobPath
+      });
+      throw new ProcessingError(
+        ProcessingErrorCode.UPLOAD_FAILED,
+        ProcessingStage.OUTPUT_UPLOAD,
+        `Failed to upload caption file to ${this.storage.name} storage`,
         (error as Error).message
       );
     }
@@ -121,16 +132,16 @@ export class BlobService {
 
   async deleteBlob(url: string, description: string): Promise<void> {
     const startTime = Date.now();
-    this.logger.info(`Deleting ${description} from Vercel Blob`, { url });
+    this.logger.info(`Deleting ${description} from storage`, { provider: this.storage.name, url });
 
     try {
-      await del(url, { token: this.token });
+      await this.storage.delete(url);
       
       this.logger.logTiming(`Delete ${description}`, startTime, { url });
 
     } catch (error) {
       // Log the error but don't throw - cleanup errors are non-fatal
-      this.logger.warn(`Failed to delete ${description} from Vercel Blob`, {
+      this.logger.warn(`Failed to delete ${description} from storage`, {
         url,
         error: (error as Error).message
       });
@@ -158,15 +169,4 @@ export class BlobService {
       deletedAssets: videoClipUrls.length + 1
     });
   }
-
-  validateBlobToken(): void {
-    if (!this.token) {
-      throw new ProcessingError(
-        ProcessingErrorCode.VALIDATION_ERROR,
-        ProcessingStage.VALIDATION,
-        'Vercel Blob token is not configured',
-        'BLOB_READ_WRITE_TOKEN environment variable is missing or empty'
-      );
-    }
-  }
-} 
\ No newline at end of file
+}
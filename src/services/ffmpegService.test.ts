@@ -0,0 +1,183 @@
+import { FFmpegService } from './ffmpegService';
+import { BrandingOptions, ProcessVideoRequest, ProcessingContext } from '../types';
+
+const service = new FFmpegService('test');
+
+function context(
+  metadata: Partial<ProcessingContext['metadata']> = {},
+  request: Partial<ProcessVideoRequest> = {}
+): ProcessingContext {
+  const transitions = metadata.transitions || [];
+  const clipCount = transitions.length + 1;
+  return {
+    processId: 'test',
+    request: {
+      videoClips: Array.from({ length: clipCount }, () => ({ url: 'https://example.com/clip.mp4', duration: 8 })),
+      assFile: { url: 'https://example.com/lyrics.ass' },
+      songUrl: 'https://example.com/song.mp3',
+      songId: 'song-1',
+      outputAspectRatio: '9:16',
+      ...request
+    },
+    rendition: {
+      name: 'default',
+      index: 0,
+      aspectRatio: '9:16',
+      width: 1080,
+      height: 1920,
+      compressionLevel: 'high'
+    },
+    renditionCount: 1,
+    tempDir: '/tmp/job',
+    startTime: 0,
+    localFiles: {
+      videoClips: Array.from({ length: clipCount }, (_, i) => `/tmp/job/clip_${i}.mp4`),
+      assFile: '/tmp/job/lyrics.ass',
+      songFile: '/tmp/job/song.mp3',
+      outputFile: '/tmp/job/output.mp4',
+      thumbnailFile: '/tmp/job/thumbnail.jpg'
+    },
+    metadata: {
+      songDuration: 20,
+      songOffset: 0,
+      outputDuration: 20,
+      clipSourceDurations: Array.from({ length: clipCount }, () => 8),
+      clipHasAudio: Array.from({ length: clipCount }, () => true),
+      totalClipDuration: clipCount * 8,
+      timeline: Array.from({ length: clipCount }, (_, clipIndex) => ({ clipIndex, startTime: 0, duration: 8, speed: 1 })),
+      transitions,
+      transitionOffsets: [],
+      freezeDuration: 0,
+      ...metadata
+    }
+  };
+}
+
+describe('FFmpegService.resolveTransitions', () => {
+  it('falls back to a fade of the default duration and zeroes cuts', () => {
+    const clips = [
+      { url: 'https://example.com/a.mp4', duration: 8 },
+      { url: 'https://example.com/b.mp4', duration: 8, transition: { type: 'wipeleft' as const, duration: 1 } },
+      { url: 'https://example.com/c.mp4', duration: 8, transition: { type: 'cut' as const, duration: 1 } },
+      { url: 'https://example.com/d.mp4', duration: 8, transition: { type: 'dissolve' as const } }
+    ];
+
+    expect(service.resolveTransitions(clips, 0.5)).toEqual([
+      { type: 'fade', duration: 0.5 },
+      { type: 'wipeleft', duration: 1 },
+      { type: 'cut', duration: 0 }
+    ]);
+  });
+});
+
+describe('FFmpegService.calculateTransitionOffsets', () => {
+  it('starts each transition its own duration before the end of the sequence so far', () => {
+    expect(service.calculateTransitionOffsets([8, 6, 10, 4], [0.5, 1, 0])).toEqual([7.5, 12.5, 22.5]);
+  });
+
+  it('returns no offsets for a single clip', () => {
+    expect(service.calculateTransitionOffsets([8], [])).toEqual([]);
+  });
+
+  it('snaps each offset to the nearest snap point the clip can reach', () => {
+    expect(service.calculateTransitionOffsets([8, 8], [1], [5, 6.8, 7.4, 9])).toEqual([6.8]);
+  });
+
+  it('only extends a clip past its declared duration as far as maxClipDurations allows', () => {
+    expect(service.calculateTransitionOffsets([8, 8], [1], [5, 7.3, 9])).toEqual([5]);
+    expect(service.calculateTransitionOffsets([8, 8], [1], [5, 7.3, 9], [10])).toEqual([7.3]);
+  });
+
+  it('never snaps into the previous transition', () => {
+    expect(service.calculateTransitionOffsets([8, 2, 8], [1, 1], [7, 7.8])).toEqual([7, 8]);
+  });
+});
+
+describe('FFmpegService.buildFilterComplex', () => {
+  it('chains xfades at the transition offsets and trims the sequence before a cut', () => {
+    const filter = service.buildFilterComplex(context({
+      transitions: [{ type: 'wipeleft', duration: 1 }, { type: 'cut', duration: 0 }],
+      transitionOffsets: [7, 15]
+    }));
+
+    expect(filter).toContain('[v0][v1]xfade=transition=wipeleft:duration=1:offset=7[v1_fade];');
+    expect(filter).toContain('[v1_fade]trim=end=15[v2_head];[v2_head][v2]concat=n=2:v=1:a=0[v2_fade];');
+    expect(filter).toMatch(/\[v2_fade\]ass=\/tmp\/job\/lyrics\.ass:fontsdir=.*\[vout\]$/);
+  });
+
+  it('retimes stretched segments and holds the last frame for the freeze', () => {
+    const filter = service.buildFilterComplex(context({
+      timeline: [{ clipIndex: 0, startTime: 0, duration: 16, speed: 0.5 }],
+      freezeDuration: 1.5
+    }));
+
+    expect(filter).toContain('[0:v]setpts=PTS/0.5,scale=1080:1920,setsar=1[v0];');
+    expect(filter).toContain('[v0]tpad=stop_mode=clone:stop_duration=1.5[v_frozen];[v_frozen]ass=');
+  });
+
+  it('holds the last video frame before the outro card and fades out at the output end', () => {
+    const outro = { url: 'https://example.com/outro.mp4', duration: 4 };
+    const filter = service.buildFilterComplex(context(
+      {
+        transitions: [{ type: 'fade', duration: 0.5 }, { type: 'fade', duration: 0.5 }],
+        transitionOffsets: [7.5, 17],
+        freezeDuration: 2,
+        outputDuration: 21
+      },
+      { branding: { outro }, fadeOutDuration: 2 }
+    ));
+
+    expect(filter).toContain('[v1_fade]tpad=stop_mode=clone:stop_duration=2[v_frozen];[v_frozen][v2]xfade=');
+    expect(filter).toMatch(/\[v2_fade\]ass=.*,fade=t=out:st=19:d=2\[vout\]$/);
+  });
+
+  it('overlays the logo beneath the subtitles unless asked to go above them', () => {
+    const logo = { url: 'https://example.com/logo.png', position: 'top-left' as const, endTime: 10 };
+    const withLogo = (branding: BrandingOptions) => {
+      const base = context({}, { branding });
+      return service.buildFilterComplex({ ...base, localFiles: { ...base.localFiles, logoFile: '/tmp/job/logo.png' } });
+    };
+    const beneath = withLogo({ logo });
+    const above = withLogo({ logo: { ...logo, aboveSubtitles: true } });
+
+    expect(beneath).toContain('[2:v]scale=162:-2,format=rgba,colorchannelmixer=aa=0.8[logo];');
+    expect(beneath).toContain("[v0][logo]overlay=x=32:y=32:enable='lte(t,10)'[v_logo];[v_logo]ass=");
+    expect(above).toMatch(/\[v0\]ass=[^;]*\[v_subtitled\];\[v_subtitled\]\[logo\]overlay=/);
+  });
+});
+
+describe('FFmpegService.buildAudioFilter', () => {
+  it('maps the song as is without an audioMix or foreground audio', () => {
+    expect(service.buildAudioFilter(context())).toBeNull();
+  });
+
+  it('normalizes loudness only when audioMix is given', () => {
+    expect(service.buildAudioFilter(context({}, { audioMix: {} }))).toMatch(/\[music\]loudnorm=I=-14:TP=-1\.5:LRA=11\[aout\]$/);
+    expect(service.buildAudioFilter(context({}, { audioMix: { normalizeLoudness: false, musicVolume: 0.5 } })))
+      .toMatch(/\[1:a\]volume=0\.5,.*\[music\];\[music\]anull\[aout\]$/);
+  });
+
+  it('delays the song by the intro card', () => {
+    expect(service.buildAudioFilter(context({ songOffset: 3.5 })))
+      .toMatch(/^\[1:a\]volume=1,.*,adelay=3500\|3500\[music\];/);
+  });
+
+  it('mixes kept clip audio over the ducked song without normalizing by default', () => {
+    const filter = service.buildAudioFilter(context(
+      { transitions: [{ type: 'fade', duration: 1 }], transitionOffsets: [7] },
+      {
+        videoClips: [
+          { url: 'https://example.com/a.mp4', duration: 8, keepAudio: true },
+          { url: 'https://example.com/b.mp4', duration: 8 }
+        ]
+      }
+    ))!;
+
+    expect(filter).toContain('[0:a]atrim=start=0:duration=8,asetpts=PTS-STARTPTS,');
+    expect(filter).toContain('afade=t=out:st=7:d=1,');
+    expect(filter).toContain('[2:a]volume=1,');
+    expect(filter).toContain('[fg]asplit=2[fg_mix][fg_key];[music][fg_key]sidechaincompress=');
+    expect(filter).not.toContain('loudnorm');
+    expect(filter).toMatch(/\[mixed\]anull\[aout\]$/);
+  });
+});
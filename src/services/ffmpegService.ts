@@ -1,23 +1,71 @@
 import ffmpeg from 'fluent-ffmpeg';
-import path from 'path';
 import { promisify } from 'util';
 import { exec } from 'child_process';
 import { ProcessLogger } from '../utils/logger';
+import { trackProcessCommand } from '../utils/processCommands';
+import { publishProcessEvent } from '../utils/processEvents';
 import { 
   ProcessingError, 
   ProcessingErrorCode, 
   ProcessingStage, 
   ProcessingContext,
-  ASPECT_RATIO_CONFIGS
+  AspectRatioConfig,
+  BrandingLogo,
+  FitMode,
+  KenBurnsPath,
+  ResolvedTransition,
+  VideoClip,
+  VisualizerLayer,
+  VisualizerStyle
 } from '../types';
+import { getH264Level, getThumbnailDimensions } from '../utils/outputDimensions';
+import { FONTS_DIR } from '../utils/fontCatalog';
+import { toIso639_2 } from '../utils/captionWriter';
+import { getCardIndexes, getTimelineClips } from '../utils/timelineClips';
 
 const execAsync = promisify(exec);
 
+// Integrated loudness (LUFS) the final mix is normalized to, unless the request sets one
+const LOUDNESS_TARGET_LUFS = parseFloat(process.env.LOUDNESS_TARGET_LUFS || '-14');
+// Every stream entering the audio mix is converted to the output format first
+const MIX_FORMAT = 'aformat=sample_fmts=fltp:sample_rates=44100:channel_layouts=stereo';
+// How hard the song is compressed while clip audio or the voice-over is playing
+const DUCKING_FILTER = 'sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400';
+
+// Frame rate image clips are rendered at; video clips on a timeline with
+// images are converted to it, since xfade needs matching frame rates
+const IMAGE_CLIP_FPS = 30;
+// Images are scaled up by this factor before a Ken Burns pan, which only
+// moves in whole pixels and would visibly jitter at the output size
+const KEN_BURNS_OVERSAMPLE = 2;
+
+// Frame rate visualizer layers are drawn at
+const VISUALIZER_FPS = 30;
+
+// Visualizer sizes (shares of the output) and vertical placement when not given;
+// a vectorscope without a height is square
+const VISUALIZER_DEFAULTS: Record<VisualizerStyle, { width: number; height?: number; placement: 'center' | 'bottom' }> = {
+  waveform: { width: 1, height: 0.2, placement: 'center' },
+  spectrum: { width: 1, height: 0.25, placement: 'bottom' },
+  vectorscope: { width: 0.4, placement: 'center' }
+};
+
+// Input positions: one per timeline segment, then the song, the voice-over,
+// the logo, the ASS file and the soft-track captions (optional inputs only when present)
+interface InputIndexes {
+  song: number;
+  voiceOver?: number;
+  logo?: number;
+  captions: number;
+}
+
 export class FFmpegService {
   private logger: ProcessLogger;
+  private processId: string;
 
   constructor(processId: string) {
     this.logger = new ProcessLogger(processId);
+    this.processId = processId;
   }
 
   async extractMetadata(filePath: string, description: string): Promise<any> {
@@ -46,87 +94,451 @@ export class FFmpegService {
     }
   }
 
+  /**
+   * Decode the start of a file's first video or audio stream. Returns null
+   * when decoding succeeds, otherwise FFmpeg's first error line.
+   */
+  async checkDecodable(filePath: string, streamType: 'video' | 'audio'): Promise<string | null> {
+    const streamOptions = streamType === 'video' ? '-map 0:v:0 -frames:v 1' : '-map 0:a:0 -t 1';
+
+    try {
+      await execAsync(`ffmpeg -v error -xerror -i "${filePath}" ${streamOptions} -f null -`);
+      return null;
+    } catch (error) {
+      const stderr = String((error as { stderr?: string }).stderr || '').trim();
+      return stderr.split('\n')[0] || (error as Error).message;
+    }
+  }
+
   async getSongDuration(songPath: string): Promise<number> {
     const metadata = await this.extractMetadata(songPath, 'song audio');
     return parseFloat(metadata.format.duration);
   }
 
-  calculateTransitionOffsets(clipDurations: number[], transitionDuration: number): number[] {
+  /**
+   * Resolve the transition used at each clip boundary.
+   * A clip's transition applies between it and the following clip; clips
+   * without one fall back to the request-wide fade of `defaultDuration`.
+   */
+  resolveTransitions(clips: VideoClip[], defaultDuration: number): ResolvedTransition[] {
+    return clips.slice(0, -1).map(clip => {
+      const type = clip.transition?.type || 'fade';
+      return {
+        type,
+        duration: type === 'cut' ? 0 : clip.transition?.duration ?? defaultDuration
+      };
+    });
+  }
+
+  /**
+   * Compute the output timestamp at which each boundary's transition starts.
+   * When `snapPoints` (e.g. beat timestamps) are given, each offset is moved
+   * to the nearest snap point the clip can reach, without cutting into the
+   * previous transition. An offset only moves forward as far as the clip's
+   * `maxClipDurations` entry (the footage its source has to spare) allows;
+   * without one, clips are never extended past their declared duration.
+   */
+  calculateTransitionOffsets(
+    clipDurations: number[],
+    transitionDurations: number[],
+    snapPoints: number[] = [],
+    maxClipDurations: number[] = []
+  ): number[] {
     const offsets: number[] = [];
-    let cumulativeDuration = 0;
+    let clipStart = 0;
+    let previousTransitionEnd = 0;
 
     for (let i = 0; i < clipDurations.length - 1; i++) {
-      cumulativeDuration += clipDurations[i]! - transitionDuration;
-      offsets.push(cumulativeDuration);
+      const declaredOffset = clipStart + clipDurations[i]! - transitionDurations[i]!;
+      const maxDuration = Math.max(clipDurations[i]!, maxClipDurations[i] ?? clipDurations[i]!);
+      const latestOffset = clipStart + maxDuration - transitionDurations[i]!;
+      let offset = declaredOffset;
+
+      // Snap points are ascending, so ties go to the earlier point
+      const candidates = snapPoints.filter(point => point > previousTransitionEnd && point <= latestOffset);
+      if (candidates.length > 0) {
+        offset = candidates.reduce((nearest, point) =>
+          Math.abs(point - declaredOffset) < Math.abs(nearest - declaredOffset) ? point : nearest
+        );
+      }
+
+      offsets.push(offset);
+      clipStart = offset;
+      previousTransitionEnd = offset + transitionDurations[i]!;
     }
 
     return offsets;
   }
 
+  /**
+   * Filter chain that fits one input into the output frame.
+   * `input` is a filter prefix (input label plus any preceding filters).
+   */
+  private buildFitFilter(
+    input: string,
+    outputLabel: string,
+    fitMode: FitMode,
+    width: number,
+    height: number,
+    backgroundColor: string
+  ): string {
+    const cover = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+    const contain = `scale=${width}:${height}:force_original_aspect_ratio=decrease:force_divisible_by=2`;
+
+    switch (fitMode) {
+      case 'cover':
+        return `${input}${cover},setsar=1[${outputLabel}];`;
+      case 'contain': {
+        const color = backgroundColor.replace(/^#/, '0x');
+        return `${input}${contain},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${color},setsar=1[${outputLabel}];`;
+      }
+      case 'blur-fill':
+        return `${input}split=2[${outputLabel}_bg][${outputLabel}_fg];` +
+          `[${outputLabel}_bg]${cover},boxblur=luma_radius=40:luma_power=2[${outputLabel}_blur];` +
+          `[${outputLabel}_fg]${contain}[${outputLabel}_fit];` +
+          `[${outputLabel}_blur][${outputLabel}_fit]overlay=(W-w)/2:(H-h)/2,setsar=1[${outputLabel}];`;
+      case 'stretch':
+      default:
+        return `${input}scale=${width}:${height},setsar=1[${outputLabel}];`;
+    }
+  }
+
+  /**
+   * Frames for an image clip from its fitted frame, using zoompan: the image
+   * held still, or panned and zoomed along the clip's Ken Burns path.
+   */
+  private buildImageMotion(
+    inputLabel: string,
+    outputLabel: string,
+    duration: number,
+    width: number,
+    height: number,
+    kenBurns?: KenBurnsPath
+  ): string {
+    const frames = Math.max(1, Math.round(duration * IMAGE_CLIP_FPS));
+    const output = `d=${frames}:s=${width}x${height}:fps=${IMAGE_CLIP_FPS}`;
+
+    if (!kenBurns) {
+      return `[${inputLabel}]zoompan=z=1:${output},setsar=1[${outputLabel}];`;
+    }
+
+    // Interpolate each value from its start to its end over the clip's frames
+    const progress = frames > 1 ? `on/${frames - 1}` : '0';
+    const path = (from: number, to: number) => `(${from}+${Math.round((to - from) * 1000) / 1000}*${progress})`;
+    const { startZoom = 1, endZoom = 1.2, startX = 0.5, startY = 0.5 } = kenBurns;
+    const { endX = startX, endY = startY } = kenBurns;
+    const zoom = path(startZoom, endZoom);
+    // Keep the visible area centered on the path without leaving the image
+    const x = `clip(${path(startX, endX)}*iw-iw/zoom/2,0,iw-iw/zoom)`;
+    const y = `clip(${path(startY, endY)}*ih-ih/zoom/2,0,ih-ih/zoom)`;
+
+    return `[${inputLabel}]scale=${width * KEN_BURNS_OVERSAMPLE}:${height * KEN_BURNS_OVERSAMPLE},` +
+      `zoompan=z='${zoom}':x='${x}':y='${y}':${output},setsar=1[${outputLabel}];`;
+  }
+
   buildFilterComplex(
     context: ProcessingContext
   ): string {
-    const { request, localFiles, metadata } = context;
-    const { width, height } = ASPECT_RATIO_CONFIGS[request.outputAspectRatio]!;
-    const transitionDuration = request.transitionDuration || 0.5;
+    const { request, localFiles, metadata, rendition } = context;
+    const { width, height } = rendition;
     
     let filterComplex = '';
     
-    // Scale all video inputs
-    for (let i = 0; i < localFiles.videoClips.length; i++) {
-      filterComplex += `[${i}:v]scale=${width}:${height},setsar=1[v${i}];`;
-    }
+    const clips = getTimelineClips(request);
+    const hasImages = metadata.timeline.some(segment => clips[segment.clipIndex]!.type === 'image');
+
+    // Scale all video inputs (one input per timeline segment)
+    metadata.timeline.forEach((segment, i) => {
+      const clip = clips[segment.clipIndex]!;
+      const fitMode = clip.fitMode || request.fitMode || 'stretch';
+      const backgroundColor = clip.backgroundColor || request.backgroundColor || '#000000';
+
+      // Image clips are a single frame: fit it, then turn it into the segment's frames
+      if (clip.type === 'image') {
+        filterComplex += this.buildFitFilter(`[${i}:v]`, `v${i}_fit`, fitMode, width, height, backgroundColor);
+        filterComplex += this.buildImageMotion(`v${i}_fit`, `v${i}`, segment.duration, width, height, clip.kenBurns);
+        return;
+      }
+
+      let retime = '';
+
+      // Cut the requested source range, then retime it, before scaling
+      if (segment.startTime > 0 || clip.endTime !== undefined) {
+        retime += `trim=start=${segment.startTime}:duration=${segment.duration * segment.speed},setpts=PTS-STARTPTS,`;
+      }
+      if (segment.speed !== 1) {
+        retime += `setpts=PTS/${segment.speed},`;
+      }
+      if (hasImages) {
+        retime += `fps=${IMAGE_CLIP_FPS},`;
+      }
+
+      filterComplex += this.buildFitFilter(`[${i}:v]${retime}`, `v${i}`, fitMode, width, height, backgroundColor);
+    });
 
     // Build transition chain
-    if (localFiles.videoClips.length === 1) {
-      // Single video, no transitions needed
-      filterComplex += `[v0]`;
-    } else {
-      // Multiple videos, apply xfade transitions
-      let currentLabel = 'v0';
-      
-      for (let i = 1; i < localFiles.videoClips.length; i++) {
-        const offset = metadata.transitionOffsets[i - 1]!;
-        const nextLabel = i === localFiles.videoClips.length - 1 ? 'video_out' : `v${i}_fade`;
-        
-        filterComplex += `[${currentLabel}][v${i}]xfade=transition=fade:duration=${transitionDuration}:offset=${offset}[${nextLabel}];`;
-        currentLabel = nextLabel;
+    const outroSegment = getCardIndexes(request).outro !== undefined ? metadata.timeline.length - 1 : undefined;
+    let currentLabel = 'v0';
+    for (let i = 1; i < metadata.timeline.length; i++) {
+      // Hold the last frame when the clips end before the song; the outro comes after it
+      if (i === outroSegment && metadata.freezeDuration > 0) {
+        filterComplex += `[${currentLabel}]tpad=stop_mode=clone:stop_duration=${metadata.freezeDuration}[v_frozen];`;
+        currentLabel = 'v_frozen';
+      }
+
+      const transition = metadata.transitions[i - 1]!;
+      const offset = metadata.transitionOffsets[i - 1]!;
+      const nextLabel = `v${i}_fade`;
+
+      if (transition.type === 'cut') {
+        // Hard cut: end the sequence so far at the offset (which may have been
+        // snapped earlier than the clip's end) and append the next clip
+        filterComplex += `[${currentLabel}]trim=end=${offset}[v${i}_head];`;
+        filterComplex += `[v${i}_head][v${i}]concat=n=2:v=1:a=0[${nextLabel}];`;
+      } else {
+        filterComplex += `[${currentLabel}][v${i}]xfade=transition=${transition.type}:duration=${transition.duration}:offset=${offset}[${nextLabel}];`;
       }
+      currentLabel = nextLabel;
+    }
+
+    // Hold the last frame when the clips end before the song
+    if (outroSegment === undefined && metadata.freezeDuration > 0) {
+      filterComplex += `[${currentLabel}]tpad=stop_mode=clone:stop_duration=${metadata.freezeDuration}[v_frozen];`;
+      currentLabel = 'v_frozen';
     }
 
-    // Apply subtitles with local fonts directory
-    const fontsDir = path.join(process.cwd(), 'fonts');
-    const assInputIndex = localFiles.videoClips.length + 1; // +1 for song audio
-    if (localFiles.videoClips.length === 1) {
-      filterComplex += `[v0]ass=${localFiles.assFile}:fontsdir=${fontsDir}[vout]`;
+    // Draw the audio visualizers over the clips, beneath the subtitles
+    const inputs = this.getInputIndexes(context);
+    (request.visualizers || []).forEach((layer, i) => {
+      const box = getVisualizerBox(layer, width, height);
+      filterComplex += this.buildVisualizerLayer(`[${inputs.song}:a]`, `viz${i}`, layer, box);
+      let layerLabel = `viz${i}`;
+      // The song, and with it the visualizer, starts once the intro card fades out
+      if (metadata.songOffset > 0) {
+        filterComplex += `[${layerLabel}]setpts=PTS+${metadata.songOffset}/TB[viz${i}_delayed];`;
+        layerLabel = `viz${i}_delayed`;
+      }
+      filterComplex += `[${currentLabel}][${layerLabel}]overlay=x=${box.x}:y=${box.y}:eof_action=pass[v_viz${i}];`;
+      currentLabel = `v_viz${i}`;
+    });
+
+    // Apply subtitles with local fonts directory, with the logo beneath or above them
+    const fontsDir = FONTS_DIR;
+    const subtitles = `ass=${localFiles.assFile}:fontsdir=${fontsDir}`;
+    const logo = request.branding?.logo;
+    if (logo && inputs.logo !== undefined) {
+      filterComplex += this.buildLogoLayer(`[${inputs.logo}:v]`, 'logo', logo, width);
+      const overlay = getLogoOverlay(logo, width);
+      filterComplex += logo.aboveSubtitles
+        ? `[${currentLabel}]${subtitles}[v_subtitled];[v_subtitled][logo]${overlay}`
+        : `[${currentLabel}][logo]${overlay}[v_logo];[v_logo]${subtitles}`;
     } else {
-      filterComplex += `[video_out]ass=${localFiles.assFile}:fontsdir=${fontsDir}[vout]`;
+      filterComplex += `[${currentLabel}]${subtitles}`;
     }
 
+    // Fade the whole frame from/to black
+    const fades = this.buildFadeFilters('fade', context);
+    filterComplex += `${fades.map(fade => `,${fade}`).join('')}[vout]`;
+
     this.logger.info('Built filter complex', { 
       filterComplex,
       clipCount: localFiles.videoClips.length,
-      transitionDuration,
-      aspectRatio: request.outputAspectRatio
+      segmentCount: metadata.timeline.length,
+      transitions: metadata.transitions,
+      imageClipCount: clips.filter(clip => clip.type === 'image').length,
+      visualizers: (request.visualizers || []).map(layer => layer.style),
+      logo: logo ? { position: logo.position || 'bottom-right', aboveSubtitles: !!logo.aboveSubtitles } : null,
+      rendition: rendition.name,
+      outputSize: `${width}x${height}`
     });
 
     return filterComplex;
   }
 
+  /**
+   * One visualizer drawn from the song in grayscale, then tinted with the
+   * layer's color. Brightness times opacity becomes the alpha channel, so the
+   * background is transparent.
+   */
+  buildVisualizerLayer(
+    input: string,
+    outputLabel: string,
+    layer: VisualizerLayer,
+    box: { width: number; height: number }
+  ): string {
+    const size = `${box.width}x${box.height}`;
+    const sources: Record<VisualizerStyle, string> = {
+      waveform: `showwaves=s=${size}:mode=cline:rate=${VISUALIZER_FPS}:colors=white`,
+      spectrum: `showspectrum=s=${size}:slide=scroll:mode=combined:color=intensity:scale=cbrt,fps=${VISUALIZER_FPS}`,
+      vectorscope: `avectorscope=s=${size}:rate=${VISUALIZER_FPS}:zoom=1.5:draw=line`
+    };
+    const color = (layer.color || '#FFFFFF').replace(/^#/, '');
+    const [red, green, blue] = [0, 2, 4].map(offset => parseInt(color.slice(offset, offset + 2), 16));
+
+    return `${input}${sources[layer.style]},format=gray,split[${outputLabel}_luma][${outputLabel}_mask];` +
+      `[${outputLabel}_luma]format=rgba,lutrgb=r=val*${red}/255:g=val*${green}/255:b=val*${blue}/255[${outputLabel}_color];` +
+      `[${outputLabel}_mask]lut=y=val*${layer.opacity ?? 0.8}[${outputLabel}_alpha];` +
+      `[${outputLabel}_color][${outputLabel}_alpha]alphamerge[${outputLabel}];`;
+  }
+
+  /**
+   * The logo scaled to its share of the output width, with its opacity
+   * applied to the image's own alpha.
+   */
+  buildLogoLayer(input: string, outputLabel: string, logo: BrandingLogo, width: number): string {
+    const logoWidth = Math.max(2, Math.round((width * (logo.scale ?? 0.15)) / 2) * 2);
+    return `${input}scale=${logoWidth}:-2,format=rgba,colorchannelmixer=aa=${logo.opacity ?? 0.8}[${outputLabel}];`;
+  }
+
+  /**
+   * Audio graph ending in [aout]: kept clip audio (cut and crossfaded like the
+   * video) and the voice-over are mixed over the song, which ducks under them,
+   * and the mix is loudness-normalized (when `audioMix` is given) and faded.
+   * Returns null when the song can be mapped as is.
+   */
+  buildAudioFilter(context: ProcessingContext): string | null {
+    const { request, metadata, localFiles } = context;
+    const audioMix = request.audioMix || {};
+    const inputs = this.getInputIndexes(context);
+    const foreground: string[] = [];
+    let filter = '';
+
+    const clips = getTimelineClips(request);
+    metadata.timeline.forEach((segment, i) => {
+      const clip = clips[segment.clipIndex]!;
+      if (!clip.keepAudio || !metadata.clipHasAudio[segment.clipIndex]) {
+        return;
+      }
+
+      // The segment is heard from its start until the next one has fully faded in
+      const start = i === 0 ? 0 : metadata.transitionOffsets[i - 1]!;
+      const incoming = metadata.transitions[i - 1];
+      const outgoing = metadata.transitions[i];
+      const end = outgoing
+        ? metadata.transitionOffsets[i]! + (outgoing.type === 'cut' ? 0 : outgoing.duration)
+        : start + segment.duration;
+      const length = Math.max(0, end - start);
+      const fadeIn = incoming && incoming.type !== 'cut' ? incoming.duration : 0;
+      const fadeOut = outgoing && outgoing.type !== 'cut' ? outgoing.duration : 0;
+      const delay = Math.round(start * 1000);
+
+      filter += `[${i}:a]atrim=start=${segment.startTime}:duration=${length * segment.speed},asetpts=PTS-STARTPTS,` +
+        buildAtempoFilters(segment.speed) +
+        `volume=${clip.audioVolume ?? 1},` +
+        (fadeIn > 0 ? `afade=t=in:d=${fadeIn},` : '') +
+        (fadeOut > 0 ? `afade=t=out:st=${Math.max(0, length - fadeOut)}:d=${fadeOut},` : '') +
+        `${MIX_FORMAT},adelay=${delay}|${delay},apad[a${i}];`;
+      foreground.push(`a${i}`);
+    });
+
+    if (localFiles.voiceOverFile && inputs.voiceOver !== undefined) {
+      const voiceOver = request.voiceOver!;
+      const delay = Math.round((voiceOver.startTime || 0) * 1000);
+      filter += `[${inputs.voiceOver}:a]volume=${voiceOver.volume ?? 1},${MIX_FORMAT},adelay=${delay}|${delay},apad[avo];`;
+      foreground.push('avo');
+    }
+
+    const musicVolume = audioMix.musicVolume ?? 1;
+    // Loudness normalization is opt-in through audioMix, so plain renders keep the song as mastered
+    const normalize = request.audioMix !== undefined && audioMix.normalizeLoudness !== false;
+    const fades = this.buildFadeFilters('afade', context);
+    const songDelay = Math.round(metadata.songOffset * 1000);
+    if (foreground.length === 0 && musicVolume === 1 && !normalize && fades.length === 0 && songDelay === 0) {
+      return null;
+    }
+
+    // The song starts once the intro card fades out
+    filter += `[${inputs.song}:a]volume=${musicVolume},${MIX_FORMAT}` +
+      (songDelay > 0 ? `,adelay=${songDelay}|${songDelay}` : '') +
+      '[music];';
+    let mixLabel = 'music';
+
+    if (foreground.length > 0) {
+      // Foreground streams are padded with silence so amix never renormalizes
+      // when one ends; its 1/n input scaling is undone with volume
+      if (foreground.length > 1) {
+        filter += `${foreground.map(label => `[${label}]`).join('')}` +
+          `amix=inputs=${foreground.length}:duration=first,volume=${foreground.length}[fg];`;
+      } else {
+        filter += `[${foreground[0]}]anull[fg];`;
+      }
+
+      if (audioMix.ducking !== false) {
+        filter += `[fg]asplit=2[fg_mix][fg_key];[music][fg_key]${DUCKING_FILTER}[ducked];`;
+        filter += `[ducked][fg_mix]amix=inputs=2:duration=first,volume=2[mixed];`;
+      } else {
+        filter += `[music][fg]amix=inputs=2:duration=first,volume=2[mixed];`;
+      }
+      mixLabel = 'mixed';
+    }
+
+    // Fades come after loudnorm, which would otherwise lift them back up
+    const loudnessTarget = audioMix.loudnessTarget ?? LOUDNESS_TARGET_LUFS;
+    const finalFilters = [
+      ...(normalize ? [`loudnorm=I=${loudnessTarget}:TP=-1.5:LRA=11`] : []),
+      ...fades
+    ];
+    filter += `[${mixLabel}]${finalFilters.join(',') || 'anull'}[aout]`;
+
+    this.logger.info('Built audio filter', {
+      audioFilter: filter,
+      foregroundTracks: foreground,
+      ducking: foreground.length > 0 && audioMix.ducking !== false,
+      loudnessTarget: normalize ? loudnessTarget : null
+    });
+
+    return filter;
+  }
+
+  // Fade-in at the start and fade-out at the end of the output
+  private buildFadeFilters(filter: 'fade' | 'afade', context: ProcessingContext): string[] {
+    const { fadeInDuration = 0, fadeOutDuration = 0 } = context.request;
+    const { outputDuration } = context.metadata;
+    const fades: string[] = [];
+
+    if (fadeInDuration > 0) {
+      fades.push(`${filter}=t=in:st=0:d=${fadeInDuration}`);
+    }
+    if (fadeOutDuration > 0) {
+      fades.push(`${filter}=t=out:st=${Math.max(0, outputDuration - fadeOutDuration)}:d=${fadeOutDuration}`);
+    }
+
+    return fades;
+  }
+
+  private getInputIndexes(context: ProcessingContext): InputIndexes {
+    const song = context.metadata.timeline.length;
+    const voiceOver = context.localFiles.voiceOverFile ? song + 1 : undefined;
+    const logo = context.localFiles.logoFile ? (voiceOver ?? song) + 1 : undefined;
+    const assFile = (logo ?? voiceOver ?? song) + 1;
+
+    return {
+      song,
+      ...(voiceOver !== undefined && { voiceOver }),
+      ...(logo !== undefined && { logo }),
+      captions: assFile + 1
+    };
+  }
+
   async processVideo(context: ProcessingContext): Promise<void> {
     const startTime = Date.now();
     this.logger.logStage('Video Processing', 'start', {
       clipCount: context.localFiles.videoClips.length,
-      outputAspectRatio: context.request.outputAspectRatio
+      rendition: context.rendition.name,
+      outputAspectRatio: context.rendition.aspectRatio
     });
 
     return new Promise((resolve, reject) => {
       try {
-        const { localFiles, metadata, request } = context;
-        const filterComplex = this.buildFilterComplex(context);
+        const { localFiles, metadata, request, rendition } = context;
+        const inputs = this.getInputIndexes(context);
+        const audioFilter = this.buildAudioFilter(context);
+        const filterComplex = audioFilter
+          ? `${this.buildFilterComplex(context)};${audioFilter}`
+          : this.buildFilterComplex(context);
 
         // Determine compression settings based on request
-        const compressionLevel = request.compressionLevel || 'high';
+        const compressionLevel = rendition.compressionLevel;
         const audioBitrate = request.audioBitrate || 96;
         
         // Compression level settings (same resolution, different quality/size tradeoffs)
@@ -137,17 +549,29 @@ export class FFmpegService {
         };
         
         const settings = compressionSettings[compressionLevel];
+        const level = getH264Level(rendition);
 
         // Create FFmpeg command
         let command = ffmpeg();
 
-        // Add video clip inputs
-        localFiles.videoClips.forEach(clipPath => {
-          command = command.input(clipPath);
+        // Add video clip inputs, one per timeline segment (looped clips repeat)
+        metadata.timeline.forEach(segment => {
+          command = command.input(localFiles.videoClips[segment.clipIndex]!);
         });
 
-        // Add audio input (song)
+        // Add audio inputs (song from songStart, then the voice-over)
         command = command.input(localFiles.songFile);
+        if (request.songStart) {
+          command = command.seekInput(request.songStart);
+        }
+        if (localFiles.voiceOverFile) {
+          command = command.input(localFiles.voiceOverFile);
+        }
+
+        // Add the branding logo (a single image, held by overlay)
+        if (localFiles.logoFile) {
+          command = command.input(localFiles.logoFile);
+        }
 
         // Add ASS subtitle input
         command = command.input(localFiles.assFile);
@@ -159,12 +583,12 @@ export class FFmpegService {
         command = command
           .outputOptions([
             '-map', '[vout]',  // Use processed video
-            '-map', `${localFiles.videoClips.length}:a`, // Use song audio (not clip audio)
+            '-map', audioFilter ? '[aout]' : `${inputs.song}:a`, // Mixed audio, or the song as is
             '-c:v', 'libx264',
             '-preset', settings.preset,
             '-crf', settings.crf,
             '-profile:v', 'high', // Use high profile for better compression
-            '-level', '4.1',      // Compatibility level
+            '-level', level,      // Compatibility level (raised for 4K frame sizes)
             '-pix_fmt', 'yuv420p', // Ensure compatibility
             '-x264-params', 'me=umh:subme=8:ref=3:bframes=3:b-adapt=2:direct=auto:weightb=1:analyse=all:8x8dct=1:trellis=2:fast-pskip=0:mixed-refs=1', // Advanced x264 settings
             '-c:a', 'aac',
@@ -172,10 +596,23 @@ export class FFmpegService {
             '-ac', '2',           // Stereo audio
             '-ar', '44100',       // Audio sample rate
             '-movflags', '+faststart',
-            '-t', metadata.songDuration.toString() // Trim to song duration
+            '-t', metadata.outputDuration.toString() // Trim to the song plus the intro and outro cards
           ])
           .output(localFiles.outputFile);
 
+        // Mux the WebVTT captions in as a soft mov_text track (the last input)
+        const softTrackFile = request.captions?.softTrack ? localFiles.captionFiles?.vtt : undefined;
+        if (softTrackFile) {
+          const captions = request.captions!;
+          command = command
+            .input(softTrackFile)
+            .outputOptions('-map', `${inputs.captions}:s`)
+            .outputOptions('-c:s', 'mov_text')
+            .outputOptions('-metadata:s:s:0', `language=${toIso639_2(captions.language || 'en')}`)
+            // MP4 keeps a track's name in its handler
+            .outputOptions('-metadata:s:s:0', `handler_name=${captions.label || 'Lyrics'}`);
+        }
+
         this.logger.info('Using compression settings', { 
           compressionLevel,
           crf: settings.crf,
@@ -193,9 +630,29 @@ export class FFmpegService {
             percent: progress.percent,
             timemark: progress.timemark 
           });
+
+          // fluent-ffmpeg's percent is relative to the first input, so derive
+          // it from the output timemark and the target duration instead
+          const encodedSeconds = this.parseTimemark(progress.timemark);
+          const percent = metadata.outputDuration > 0
+            ? Math.min(100, Math.round((encodedSeconds / metadata.outputDuration) * 1000) / 10)
+            : 0;
+
+          publishProcessEvent(this.processId, {
+            type: 'encode',
+            rendition: rendition.name,
+            renditionIndex: rendition.index,
+            renditionCount: context.renditionCount,
+            percent,
+            timemark: progress.timemark
+          });
         });
 
+        // Registered so shutdown can kill the encode if the job outlives the drain
+        const untrack = trackProcessCommand(this.processId, command);
+
         command.on('error', (error: any) => {
+          untrack();
           this.logger.error('FFmpeg processing failed', error, {
             clipCount: localFiles.videoClips.length,
             songDuration: metadata.songDuration
@@ -209,6 +666,7 @@ export class FFmpegService {
         });
 
         command.on('end', () => {
+          untrack();
           this.logger.logTiming('Video Processing', startTime, {
             outputFile: localFiles.outputFile,
             songDuration: metadata.songDuration
@@ -231,6 +689,14 @@ export class FFmpegService {
     });
   }
 
+  private parseTimemark(timemark: string | undefined): number {
+    // Parse time format HH:MM:SS.xx
+    const match = (timemark || '').match(/(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+    if (!match) return 0;
+
+    return parseInt(match[1]!, 10) * 3600 + parseInt(match[2]!, 10) * 60 + parseFloat(match[3]!);
+  }
+
   async verifyFFmpegInstallation(): Promise<void> {
     try {
       const { stdout } = await execAsync('ffmpeg -version');
@@ -247,7 +713,7 @@ export class FFmpegService {
   }
 
   async verifyFontsDirectory(): Promise<void> {
-    const fontsDir = path.join(process.cwd(), 'fonts');
+    const fontsDir = FONTS_DIR;
     try {
       const fs = await import('fs/promises');
       const fontFiles = await fs.readdir(fontsDir);
@@ -270,8 +736,13 @@ export class FFmpegService {
     }
   }
 
-  async generateThumbnail(videoFilePath: string, thumbnailFilePath: string): Promise<void> {
+  async generateThumbnail(
+    videoFilePath: string,
+    thumbnailFilePath: string,
+    outputDimensions: AspectRatioConfig
+  ): Promise<void> {
     const startTime = Date.now();
+    const thumbnailSize = getThumbnailDimensions(outputDimensions);
     this.logger.logStage('Thumbnail Generation', 'start', { 
       videoFilePath, 
       thumbnailFilePath 
@@ -282,7 +753,7 @@ export class FFmpegService {
         const command = ffmpeg(videoFilePath)
           .seekInput(1) // Seek to 1 second
           .frames(1) // Extract only 1 frame
-          .size('1280x720') // Standard thumbnail size
+          .size(`${thumbnailSize.width}x${thumbnailSize.height}`) // Same shape as the output
           .format('image2')
           .output(thumbnailFilePath);
 
@@ -290,7 +761,10 @@ export class FFmpegService {
           this.logger.info('FFmpeg thumbnail command started', { commandLine });
         });
 
+        const untrack = trackProcessCommand(this.processId, command);
+
         command.on('error', (error: any) => {
+          untrack();
           this.logger.error('FFmpeg thumbnail generation failed', error, {
             videoFilePath,
             thumbnailFilePath
@@ -304,6 +778,7 @@ export class FFmpegService {
         });
 
         command.on('end', () => {
+          untrack();
           this.logger.logTiming('Thumbnail Generation', startTime, {
             videoFilePath,
             thumbnailFilePath
@@ -325,4 +800,53 @@ export class FFmpegService {
       }
     });
   }
-} 
\ No newline at end of file
+} 
+
+// atempo only takes factors from 0.5 to 2 in older FFmpeg builds, so chain it
+function buildAtempoFilters(speed: number): string {
+  let filters = '';
+  let remaining = speed;
+  while (remaining < 0.5 || remaining > 2) {
+    const step = remaining < 0.5 ? 0.5 : 2;
+    filters += `atempo=${step},`;
+    remaining /= step;
+  }
+  return remaining === 1 ? filters : `${filters}atempo=${remaining},`;
+}
+
+// Pixel size and top-left position of a visualizer layer in the output frame
+function getVisualizerBox(
+  layer: VisualizerLayer,
+  frameWidth: number,
+  frameHeight: number
+): { x: number; y: number; width: number; height: number } {
+  const defaults = VISUALIZER_DEFAULTS[layer.style];
+  const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  const width = even(frameWidth * (layer.width ?? defaults.width));
+  const height = layer.height !== undefined || defaults.height !== undefined
+    ? even(frameHeight * (layer.height ?? defaults.height!))
+    : width;
+
+  return {
+    x: layer.x !== undefined ? Math.round(frameWidth * layer.x) : Math.round((frameWidth - width) / 2),
+    y: layer.y !== undefined
+      ? Math.round(frameHeight * layer.y)
+      : defaults.placement === 'bottom' ? frameHeight - height : Math.round((frameHeight - height) / 2),
+    width,
+    height
+  };
+}
+
+// Overlay filter placing the logo in its corner, enabled only within its time window
+function getLogoOverlay(logo: BrandingLogo, frameWidth: number): string {
+  const margin = Math.round(frameWidth * (logo.margin ?? 0.03));
+  const [vertical, horizontal] = (logo.position || 'bottom-right').split('-');
+  const x = horizontal === 'left' ? `${margin}` : `main_w-overlay_w-${margin}`;
+  const y = vertical === 'top' ? `${margin}` : `main_h-overlay_h-${margin}`;
+  const window = [
+    ...(logo.startTime ? [`gte(t,${logo.startTime})`] : []),
+    ...(logo.endTime !== undefined ? [`lte(t,${logo.endTime})`] : [])
+  ];
+
+  return `overlay=x=${x}:y=${y}${window.length > 0 ? `:enable='${window.join('*')}'` : ''}`;
+}
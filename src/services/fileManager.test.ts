@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import axios from 'axios';
+
+jest.mock('axios', () => ({
+  __esModule: true,
+  default: Object.assign(jest.fn(), { head: jest.fn(), isAxiosError: () => false })
+}));
+
+const mockedAxios = axios as unknown as jest.Mock & { head: jest.Mock };
+const baseDir = path.join(os.tmpdir(), `file-manager-test-${process.pid}`);
+const cacheDir = path.join(baseDir, 'cache');
+const jobDir = path.join(baseDir, 'job');
+
+// The cache settings are read when the module loads
+process.env.DOWNLOAD_CACHE_DIR = cacheDir;
+process.env.DOWNLOAD_CACHE_MAX_MB = '1';
+process.env.DOWNLOAD_PARTIAL_MAX_AGE_MS = '3600000';
+const { FileManager } = require('./fileManager') as typeof import('./fileManager');
+
+function serve(content: Buffer): void {
+  mockedAxios.head.mockResolvedValue({ headers: { etag: '"v1"' } });
+  mockedAxios.mockImplementation(async () => ({
+    status: 200,
+    headers: { 'content-length': String(content.length) },
+    data: Readable.from([content])
+  }));
+}
+
+beforeEach(async () => {
+  await fs.rm(baseDir, { recursive: true, force: true });
+  await fs.mkdir(cacheDir, { recursive: true });
+  await fs.mkdir(jobDir, { recursive: true });
+});
+
+afterAll(async () => {
+  await fs.rm(baseDir, { recursive: true, force: true });
+});
+
+describe('FileManager download cache', () => {
+  it('links a new entry into the job before pruning can evict it', async () => {
+    // Larger than DOWNLOAD_CACHE_MAX_MB on its own
+    const content = Buffer.alloc(1.5 * 1024 * 1024, 1);
+    serve(content);
+    const destination = path.join(jobDir, 'clip.mp4');
+
+    await new FileManager('test').downloadFile('https://example.com/clip.mp4', destination, 'video clip');
+
+    expect((await fs.readFile(destination)).equals(content)).toBe(true);
+    expect(await fs.readdir(cacheDir)).toEqual([]);
+  });
+
+  it('removes stale partial downloads and counts recent ones towards the limit', async () => {
+    const stale = path.join(cacheDir, 'stale.partial');
+    const recent = path.join(cacheDir, 'recent.partial');
+    const old = new Date(Date.now() - 2 * 3600000);
+    await fs.writeFile(stale, 'abandoned');
+    await fs.utimes(stale, old, old);
+    await fs.writeFile(recent, Buffer.alloc(0.75 * 1024 * 1024));
+    serve(Buffer.alloc(0.5 * 1024 * 1024, 1));
+
+    await new FileManager('test').downloadFile(
+      'https://example.com/clip.mp4',
+      path.join(jobDir, 'clip.mp4'),
+      'video clip'
+    );
+
+    // The oldest remaining file (the recent partial) makes way for the new entry
+    const remaining = await fs.readdir(cacheDir);
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0]).not.toMatch(/\.partial$/);
+  });
+});
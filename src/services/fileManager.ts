@@ -1,15 +1,44 @@
 import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
 import path from 'path';
+import crypto from 'crypto';
 import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import { ProcessLogger } from '../utils/logger';
+import { publishProcessEvent } from '../utils/processEvents';
+import { getStorageProvider } from './storage';
 import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../types';
 
+// Minimum interval between download progress events for a single file
+const DOWNLOAD_PROGRESS_INTERVAL_MS = 500;
+
+const DOWNLOAD_CONCURRENCY = parseInt(process.env.DOWNLOAD_CONCURRENCY || '4', 10);
+const DOWNLOAD_MAX_ATTEMPTS = parseInt(process.env.DOWNLOAD_MAX_ATTEMPTS || '4', 10);
+const DOWNLOAD_RETRY_DELAY_MS = parseInt(process.env.DOWNLOAD_RETRY_DELAY_MS || '1000', 10);
+
+// Content-addressed cache of downloaded assets; set DOWNLOAD_CACHE_DIR= (empty) to disable
+const DOWNLOAD_CACHE_DIR = process.env.DOWNLOAD_CACHE_DIR ?? './data/cache/downloads';
+const DOWNLOAD_CACHE_MAX_BYTES = parseInt(process.env.DOWNLOAD_CACHE_MAX_MB || '5120', 10) * 1024 * 1024;
+// Partial downloads untouched for this long are abandoned and removed (default 24 hours)
+const DOWNLOAD_PARTIAL_MAX_AGE_MS = parseInt(process.env.DOWNLOAD_PARTIAL_MAX_AGE_MS || '86400000', 10);
+
+// HTTP statuses worth retrying; anything else (404, 403, ...) fails immediately
+const TRANSIENT_STATUS_CODES = [408, 425, 429, 500, 502, 503, 504];
+
+// Cache entries being downloaded, shared across jobs so concurrent jobs fetch a URL once
+const inFlightCacheDownloads = new Map<string, Promise<string>>();
+
+// Cache keys a job is about to link into its directory (reference counts), so
+// pruning never evicts them from under it
+const cacheEntriesInUse = new Map<string, number>();
+
 export class FileManager {
   private logger: ProcessLogger;
+  private processId: string;
 
   constructor(processId: string) {
     this.logger = new ProcessLogger(processId);
+    this.processId = processId;
   }
 
   async createTempDirectory(processId: string): Promise<string> {
@@ -30,32 +59,44 @@ export class FileManager {
     }
   }
 
+  /**
+   * Download a file with retries and Range resume. When the server returns an
+   * ETag, the file is stored in the download cache keyed by URL and ETag and
+   * later requests for the same content are served from disk.
+   */
   async downloadFile(url: string, destination: string, description: string): Promise<void> {
     const startTime = Date.now();
     this.logger.info(`Downloading ${description}`, { url, destination });
 
     try {
-      const response = await axios({
-        method: 'GET',
-        url,
-        responseType: 'stream',
-        timeout: 300000, // 5 minutes timeout
-        headers: {
-          'User-Agent': 'FFmpeg-Video-Processor/1.0'
-        }
-      });
+      const etag = DOWNLOAD_CACHE_DIR ? await this.fetchETag(url) : null;
+      let cached = false;
 
-      const writer = await fs.open(destination, 'w');
-      
-      await new Promise<void>((resolve, reject) => {
-        const writeStream = writer.createWriteStream();
-        response.data.pipe(writeStream);
-        response.data.on('error', reject);
-        writeStream.on('finish', () => resolve());
-        writeStream.on('error', reject);
-      });
+      if (etag) {
+        const key = crypto.createHash('sha256').update(`${url}\n${etag}`).digest('hex');
+        cacheEntriesInUse.set(key, (cacheEntriesInUse.get(key) || 0) + 1);
+        try {
+          const cacheResult = await this.downloadToCache(key, url, etag, description);
+          cached = cacheResult.cached;
+          await this.linkOrCopy(cacheResult.cacheFile, destination);
+        } finally {
+          const users = (cacheEntriesInUse.get(key) || 1) - 1;
+          if (users > 0) {
+            cacheEntriesInUse.set(key, users);
+          } else {
+            cacheEntriesInUse.delete(key);
+          }
+        }
 
-      await writer.close();
+        // Only new entries can push the cache over its limit
+        if (!cached) {
+          await this.pruneCache();
+        }
+      } else {
+        const partialFile = `${destination}.partial`;
+        await this.downloadWithRetries(url, partialFile, description, null);
+        await fs.rename(partialFile, destination);
+      }
 
       // Verify file was downloaded successfully
       const stats = await fs.stat(destination);
@@ -66,7 +107,8 @@ export class FileManager {
       this.logger.logTiming(`Download ${description}`, startTime, { 
         url, 
         destination, 
-        fileSize: stats.size 
+        fileSize: stats.size,
+        cached
       });
 
     } catch (error) {
@@ -80,49 +122,339 @@ export class FileManager {
     }
   }
 
+  private async fetchETag(url: string): Promise<string | null> {
+    try {
+      const response = await axios.head(url, {
+        timeout: 30000,
+        headers: { 'User-Agent': 'FFmpeg-Video-Processor/1.0' }
+      });
+      const etag = response.headers['etag'];
+      return typeof etag === 'string' && etag.length > 0 ? etag : null;
+    } catch (error) {
+      // Servers without HEAD support are downloaded without caching
+      this.logger.debug('HEAD request failed, skipping download cache', {
+        url,
+        error: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  private async downloadToCache(
+    key: string,
+    url: string,
+    etag: string,
+    description: string
+  ): Promise<{ cacheFile: string; cached: boolean }> {
+    const cacheFile = path.join(DOWNLOAD_CACHE_DIR, key);
+
+    const isCached = await fs.stat(cacheFile).then(stats => stats.size > 0).catch(() => false);
+    if (isCached) {
+      // Refresh the modification time so eviction drops least recently used entries first
+      const now = new Date();
+      await fs.utimes(cacheFile, now, now).catch(() => undefined);
+      publishProcessEvent(this.processId, {
+        type: 'download',
+        asset: description,
+        bytesReceived: (await fs.stat(cacheFile)).size,
+        totalBytes: null,
+        percent: 100,
+        cached: true
+      });
+      this.logger.info(`Using cached ${description}`, { url, cacheFile });
+      return { cacheFile, cached: true };
+    }
+
+    let download = inFlightCacheDownloads.get(key);
+    if (!download) {
+      download = (async () => {
+        await fs.mkdir(DOWNLOAD_CACHE_DIR, { recursive: true });
+        // Partial files survive failed jobs, so a later request resumes them
+        const partialFile = `${cacheFile}.partial`;
+        await this.downloadWithRetries(url, partialFile, description, etag);
+        await fs.rename(partialFile, cacheFile);
+        return cacheFile;
+      })().finally(() => inFlightCacheDownloads.delete(key));
+      inFlightCacheDownloads.set(key, download);
+    }
+
+    return { cacheFile: await download, cached: false };
+  }
+
+  private async downloadWithRetries(
+    url: string,
+    partialFile: string,
+    description: string,
+    etag: string | null
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.transferFile(url, partialFile, description, etag);
+        return;
+      } catch (error) {
+        if (attempt >= DOWNLOAD_MAX_ATTEMPTS || !this.isTransientError(error)) {
+          throw error;
+        }
+
+        const delayMs = DOWNLOAD_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+        this.logger.warn(`Download of ${description} failed, retrying`, {
+          url,
+          attempt,
+          delayMs,
+          error: (error as Error).message
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /**
+   * Fetch `url` into `partialFile`. If the file already holds bytes from an
+   * interrupted attempt, only the remainder is requested with a Range header;
+   * a server that ignores the range sends the whole file and it is rewritten.
+   */
+  private async transferFile(
+    url: string,
+    partialFile: string,
+    description: string,
+    etag: string | null
+  ): Promise<void> {
+    const existingBytes = await fs.stat(partialFile).then(stats => stats.size).catch(() => 0);
+    const headers: Record<string, string> = {
+      'User-Agent': 'FFmpeg-Video-Processor/1.0'
+    };
+    if (existingBytes > 0) {
+      headers['Range'] = `bytes=${existingBytes}-`;
+      if (etag) {
+        headers['If-Range'] = etag;
+      }
+    }
+
+    const response = await axios({
+      method: 'GET',
+      url,
+      responseType: 'stream',
+      timeout: 300000, // 5 minutes timeout
+      headers,
+      validateStatus: status => (status >= 200 && status < 300) || status === 416
+    });
+
+    if (response.status === 416) {
+      // The saved bytes don't match the remote file; start over
+      response.data.destroy();
+      await fs.rm(partialFile, { force: true });
+      throw new Error('Requested range not satisfiable, restarting download');
+    }
+
+    const resumed = response.status === 206;
+    const contentLength = parseInt(response.headers['content-length'] || '', 10);
+    const totalBytes = Number.isFinite(contentLength)
+      ? contentLength + (resumed ? existingBytes : 0)
+      : null;
+    let bytesReceived = resumed ? existingBytes : 0;
+    let lastProgressAt = 0;
+
+    if (resumed) {
+      this.logger.info(`Resuming ${description} download`, { url, offset: existingBytes });
+    }
+
+    const reportProgress = (force: boolean) => {
+      const now = Date.now();
+      if (!force && now - lastProgressAt < DOWNLOAD_PROGRESS_INTERVAL_MS) {
+        return;
+      }
+      lastProgressAt = now;
+      publishProcessEvent(this.processId, {
+        type: 'download',
+        asset: description,
+        bytesReceived,
+        totalBytes,
+        percent: totalBytes ? Math.round((bytesReceived / totalBytes) * 100) : null
+      });
+    };
+
+    response.data.on('data', (chunk: Buffer) => {
+      bytesReceived += chunk.length;
+      reportProgress(false);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const writeStream = createWriteStream(partialFile, { flags: resumed ? 'a' : 'w' });
+      response.data.pipe(writeStream);
+      response.data.on('error', reject);
+      response.data.on('aborted', () => reject(new Error('Connection closed before download finished')));
+      writeStream.on('finish', () => resolve());
+      writeStream.on('error', reject);
+    });
+
+    reportProgress(true);
+
+    if (totalBytes !== null && bytesReceived < totalBytes) {
+      throw new Error(`Download ended after ${bytesReceived} of ${totalBytes} bytes`);
+    }
+  }
+
+  private isTransientError(error: unknown): boolean {
+    if (axios.isAxiosError(error) && error.response) {
+      return TRANSIENT_STATUS_CODES.includes(error.response.status);
+    }
+    // Network failures, timeouts and truncated transfers
+    return true;
+  }
+
+  // Hard-link cache entries into the job directory, copying across filesystems
+  private async linkOrCopy(source: string, destination: string): Promise<void> {
+    await fs.rm(destination, { force: true });
+    try {
+      await fs.link(source, destination);
+    } catch {
+      await fs.copyFile(source, destination);
+    }
+  }
+
+  /**
+   * Evict least recently used cache entries beyond DOWNLOAD_CACHE_MAX_MB.
+   * Partial downloads count towards the limit and are removed once they are
+   * older than DOWNLOAD_PARTIAL_MAX_AGE_MS. Entries still downloading or about
+   * to be linked by a job are never evicted.
+   */
+  private async pruneCache(): Promise<void> {
+    try {
+      const names = await fs.readdir(DOWNLOAD_CACHE_DIR);
+      const entries = (await Promise.all(names.map(async name => {
+        const filePath = path.join(DOWNLOAD_CACHE_DIR, name);
+        // Other jobs may rename or remove files while we look
+        const stats = await fs.stat(filePath).catch(() => null);
+        if (!stats) {
+          return null;
+        }
+        const partial = name.endsWith('.partial');
+        const key = partial ? name.slice(0, -'.partial'.length) : name;
+        return { filePath, key, partial, size: stats.size, mtimeMs: stats.mtimeMs };
+      }))).filter(entry => entry !== null);
+
+      const isProtected = (key: string) => inFlightCacheDownloads.has(key) || cacheEntriesInUse.has(key);
+      const staleBefore = Date.now() - DOWNLOAD_PARTIAL_MAX_AGE_MS;
+      let totalSize = 0;
+      const candidates: typeof entries = [];
+
+      for (const entry of entries) {
+        if (entry.partial && entry.mtimeMs < staleBefore && !isProtected(entry.key)) {
+          await fs.rm(entry.filePath, { force: true });
+          this.logger.debug('Removed stale partial download', { filePath: entry.filePath, size: entry.size });
+          continue;
+        }
+
+        totalSize += entry.size;
+        if (!isProtected(entry.key)) {
+          candidates.push(entry);
+        }
+      }
+
+      candidates.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+      for (const entry of candidates) {
+        if (totalSize <= DOWNLOAD_CACHE_MAX_BYTES) {
+          break;
+        }
+        await fs.rm(entry.filePath, { force: true });
+        totalSize -= entry.size;
+        this.logger.debug('Evicted download cache entry', { filePath: entry.filePath, size: entry.size });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to prune download cache', { error: (error as Error).message });
+    }
+  }
+
   async downloadAssets(
     videoClipUrls: string[],
-    assFileUrl: string,
+    assFileUrls: string[],
     songUrl: string,
-    tempDir: string
+    tempDir: string,
+    optionalUrls: { lyricsUrl?: string; voiceOverUrl?: string; logoUrl?: string } = {}
   ): Promise<{
     videoClips: string[];
-    assFile: string;
+    assFiles: string[];
     songFile: string;
+    lyricsFile?: string;
+    voiceOverFile?: string;
+    logoFile?: string;
   }> {
+    const { lyricsUrl, voiceOverUrl, logoUrl } = optionalUrls;
     const startTime = Date.now();
     this.logger.logStage('Asset Download', 'start', { 
       videoClipCount: videoClipUrls.length,
-      assFileUrl,
+      assFileUrls,
       songUrl 
     });
 
     try {
-      // Download video clips
-      const videoClips: string[] = [];
-      for (let i = 0; i < videoClipUrls.length; i++) {
-        const clipPath = path.join(tempDir, `clip_${i + 1}.mp4`);
-        await this.downloadFile(videoClipUrls[i]!, clipPath, `video clip ${i + 1}`);
-        videoClips.push(clipPath);
-      }
+      // Keep each file's own extension so FFmpeg sees the container that was actually sent
+      const videoClips = videoClipUrls.map((url, i) =>
+        path.join(tempDir, `clip_${i + 1}${this.getUrlExtension(url, '.mp4')}`)
+      );
+      const assFiles = assFileUrls.map((_, i) =>
+        path.join(tempDir, i === 0 ? 'subtitles.ass' : `subtitles_${i + 1}.ass`)
+      );
+      const songFile = path.join(tempDir, `song${this.getUrlExtension(songUrl, '.mp3')}`);
+      const lyricsFile = lyricsUrl && path.join(tempDir, `lyrics${this.getUrlExtension(lyricsUrl, '.txt')}`);
+      const voiceOverFile = voiceOverUrl &&
+        path.join(tempDir, `voice_over${this.getUrlExtension(voiceOverUrl, '.mp3')}`);
+      const logoFile = logoUrl && path.join(tempDir, `logo${this.getUrlExtension(logoUrl, '.png')}`);
 
-      // Download ASS file
-      const assFile = path.join(tempDir, 'subtitles.ass');
-      await this.downloadFile(assFileUrl, assFile, 'ASS subtitle file');
+      const downloads = [
+        ...videoClipUrls.map((url, i) => ({
+          url,
+          destination: videoClips[i]!,
+          description: `video clip ${i + 1}`
+        })),
+        ...assFileUrls.map((url, i) => ({
+          url,
+          destination: assFiles[i]!,
+          description: assFileUrls.length === 1 ? 'ASS subtitle file' : `ASS subtitle file ${i + 1}`
+        })),
+        { url: songUrl, destination: songFile, description: 'song audio' },
+        ...(lyricsUrl && lyricsFile ? [{ url: lyricsUrl, destination: lyricsFile, description: 'lyrics' }] : []),
+        ...(voiceOverUrl && voiceOverFile
+          ? [{ url: voiceOverUrl, destination: voiceOverFile, description: 'voice-over audio' }]
+          : []),
+        ...(logoUrl && logoFile ? [{ url: logoUrl, destination: logoFile, description: 'branding logo' }] : [])
+      ];
 
-      // Download song
-      const songFile = path.join(tempDir, 'song.mp3');
-      await this.downloadFile(songUrl, songFile, 'song audio');
+      // Download up to DOWNLOAD_CONCURRENCY files at a time. After a failure no
+      // new downloads start, and in-flight ones finish before cleanup runs.
+      let nextDownload = 0;
+      let failed = false;
+      const worker = async () => {
+        while (!failed && nextDownload < downloads.length) {
+          const download = downloads[nextDownload++]!;
+          try {
+            await this.downloadFile(download.url, download.destination, download.description);
+          } catch (error) {
+            failed = true;
+            throw error;
+          }
+        }
+      };
+      const workerCount = Math.max(1, Math.min(DOWNLOAD_CONCURRENCY, downloads.length));
+      const results = await Promise.allSettled(Array.from({ length: workerCount }, worker));
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
+      }
 
       this.logger.logTiming('Asset Download', startTime, {
         videoClipCount: videoClips.length,
-        totalFiles: videoClips.length + 2
+        totalFiles: downloads.length
       });
 
       return {
         videoClips,
-        assFile,
-        songFile
+        assFiles,
+        songFile,
+        ...(lyricsFile && { lyricsFile }),
+        ...(voiceOverFile && { voiceOverFile }),
+        ...(logoFile && { logoFile })
       };
 
     } catch (error) {
@@ -134,6 +466,15 @@ export class FileManager {
     }
   }
 
+  private getUrlExtension(url: string, fallback: string): string {
+    try {
+      const extension = path.extname(new URL(url).pathname).toLowerCase();
+      return /^\.[a-z0-9]{1,5}$/.test(extension) ? extension : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
   async cleanupDirectory(dirPath: string): Promise<void> {
     const startTime = Date.now();
     this.logger.logStage('Cleanup', 'start', { dirPath });
@@ -157,15 +498,21 @@ export class FileManager {
     }
   }
 
-  generateFileName(songId: string, processId: string, extension: string): string {
-    return `final_video_${processId}.${extension}`;
+  generateFileName(songId: string, processId: string, extension: string, variant?: string): string {
+    return variant
+      ? `final_video_${processId}_${variant}.${extension}`
+      : `final_video_${processId}.${extension}`;
   }
 
   generateBlobPath(songId: string, fileName: string): string {
-    return `videos/${songId}/${fileName}`;
+    return getStorageProvider().buildKey('videos', songId, fileName);
   }
 
   generateThumbnailBlobPath(songId: string, fileName: string): string {
-    return `thumbnails/${songId}/${fileName}`;
+    return getStorageProvider().buildKey('thumbnails', songId, fileName);
+  }
+
+  generateCaptionBlobPath(songId: string, fileName: string): string {
+    return getStorageProvider().buildKey('captions', songId, fileName);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,271 @@
+import { JobManager } from './jobManager';
+import { VideoProcessor } from './videoProcessor';
+import { WebhookService } from './webhookService';
+import { JobStore, StoredJob } from './jobStore';
+import { trackProcessCommand } from '../utils/processCommands';
+import { JobRecord, ProcessingError, ProcessingErrorCode, ProcessingStage } from '../types';
+
+jest.mock('./videoProcessor');
+jest.mock('./webhookService');
+
+const processVideo = jest.fn();
+jest.mocked(VideoProcessor).mockImplementation(processId => ({
+  processVideo: (requestData: any) => processVideo(requestData, processId)
+}) as unknown as VideoProcessor);
+
+const deliver = jest.fn();
+jest.mocked(WebhookService).mockImplementation(() => ({ deliver }) as unknown as WebhookService);
+
+const request = {
+  videoClips: [{ url: 'https://example.com/clip.mp4', duration: 8 }],
+  assFile: { url: 'https://example.com/lyrics.ass' },
+  songUrl: 'https://example.com/song.mp3',
+  songId: 'song-1',
+  outputAspectRatio: '9:16'
+};
+
+const result = {
+  status: 'completed',
+  renditions: [],
+  duration: 30,
+  message: 'Video processed successfully',
+  processingTimeMs: 1000
+};
+
+function flushJobs(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function createStore(storedJobs: StoredJob[] = []) {
+  return {
+    initialize: jest.fn().mockResolvedValue(undefined),
+    loadAll: jest.fn().mockResolvedValue(storedJobs),
+    save: jest.fn().mockResolvedValue(undefined),
+    remove: jest.fn().mockResolvedValue(undefined),
+    flush: jest.fn().mockResolvedValue(undefined)
+  };
+}
+
+function storedJob(jobId: string, status: JobRecord['status'], createdAt: string): StoredJob {
+  return {
+    job: { jobId, status, stage: null, progress: 40, createdAt, updatedAt: createdAt },
+    request: status === 'completed' ? undefined : { ...request, songId: jobId }
+  };
+}
+
+function createManager(store = createStore()): JobManager {
+  return new JobManager(store as unknown as JobStore);
+}
+
+// Resolves or rejects the job's processVideo call on demand
+function deferJob() {
+  let resolveJob!: (value: unknown) => void;
+  processVideo.mockReturnValueOnce(new Promise(resolve => {
+    resolveJob = resolve;
+  }));
+  return (value: unknown) => resolveJob(value);
+}
+
+beforeEach(() => {
+  processVideo.mockReset();
+  deliver.mockReset().mockResolvedValue(true);
+  process.env.WEBHOOK_SECRET = 'test-secret';
+});
+
+afterAll(() => {
+  delete process.env.WEBHOOK_SECRET;
+});
+
+describe('JobManager', () => {
+  it('returns a queued snapshot and completes the job in the background', async () => {
+    processVideo.mockResolvedValue(result);
+    const manager = createManager();
+
+    const job = manager.submit(request);
+
+    expect(job).toMatchObject({ status: 'queued', stage: null, progress: 0 });
+    await flushJobs();
+
+    expect(VideoProcessor).toHaveBeenCalledWith(job.jobId);
+
+    expect(manager.get(job.jobId)).toMatchObject({ status: 'completed', progress: 100, result });
+  });
+
+  it('records the error of a failed job', async () => {
+    processVideo.mockRejectedValue(
+      new ProcessingError(ProcessingErrorCode.DOWNLOAD_FAILED, ProcessingStage.ASSET_DOWNLOAD, 'Download failed')
+    );
+    const manager = createManager();
+
+    const job = manager.submit(request);
+    await flushJobs();
+
+    expect(manager.get(job.jobId)).toMatchObject({
+      status: 'failed',
+      error: { code: ProcessingErrorCode.DOWNLOAD_FAILED, message: 'Download failed' }
+    });
+  });
+
+  it('rejects invalid requests before creating a job', () => {
+    const manager = createManager();
+
+    expect(() => manager.submit({ ...request, songId: '' })).toThrow(ProcessingError);
+    expect(manager.list()).toEqual([]);
+    expect(processVideo).not.toHaveBeenCalled();
+  });
+
+  it('filters the job list by status', async () => {
+    processVideo.mockResolvedValueOnce(result).mockReturnValueOnce(new Promise(() => {}));
+    const manager = createManager();
+
+    const completed = manager.submit(request);
+    await flushJobs();
+    const processing = manager.submit(request);
+    await flushJobs();
+
+    expect(manager.list('completed').map(job => job.jobId)).toEqual([completed.jobId]);
+    expect(manager.list('processing').map(job => job.jobId)).toEqual([processing.jobId]);
+    expect(manager.list()).toHaveLength(2);
+    expect(manager.get('missing')).toBeUndefined();
+  });
+
+  it('delivers the webhook once the job is final', async () => {
+    processVideo.mockResolvedValue(result);
+    const manager = createManager();
+    let statusAtDelivery: string | undefined;
+    deliver.mockImplementation(async () => {
+      statusAtDelivery = manager.get(job.jobId)?.status;
+      return true;
+    });
+
+    const job = manager.submit({ ...request, callbackUrl: 'https://example.com/hook' });
+    await flushJobs();
+
+    expect(WebhookService).toHaveBeenCalledWith(job.jobId);
+    expect(deliver).toHaveBeenCalledWith('https://example.com/hook', result);
+    expect(statusAtDelivery).toBe('completed');
+  });
+
+  it('delivers the error response of a failed job', async () => {
+    processVideo.mockRejectedValue(new Error('boom'));
+    const manager = createManager();
+
+    manager.submit({ ...request, callbackUrl: 'https://example.com/hook' });
+    await flushJobs();
+
+    expect(deliver).toHaveBeenCalledWith(
+      'https://example.com/hook',
+      expect.objectContaining({ status: 'failed' })
+    );
+  });
+
+  it('does not send a webhook without a callbackUrl', async () => {
+    processVideo.mockResolvedValue(result);
+    const manager = createManager();
+
+    manager.submit(request);
+    await flushJobs();
+
+    expect(deliver).not.toHaveBeenCalled();
+  });
+
+  it('runs at most MAX_CONCURRENT_JOBS jobs and starts queued jobs as slots free up', async () => {
+    const finishFirst = deferJob();
+    processVideo.mockResolvedValueOnce(result);
+    const store = createStore();
+    const manager = createManager(store);
+
+    const first = manager.submit(request);
+    const second = manager.submit(request);
+    await flushJobs();
+
+    expect(manager.get(first.jobId)?.status).toBe('processing');
+    expect(manager.get(second.jobId)?.status).toBe('queued');
+    expect(store.save).toHaveBeenCalledWith({ job: expect.objectContaining({ jobId: second.jobId }), request });
+
+    finishFirst(result);
+    await flushJobs();
+
+    expect(manager.get(first.jobId)?.status).toBe('completed');
+    expect(manager.get(second.jobId)?.status).toBe('completed');
+  });
+
+  it('re-queues interrupted jobs from the store in submission order', async () => {
+    processVideo.mockResolvedValue(result);
+    const store = createStore([
+      storedJob('later', 'processing', '2026-01-01T00:00:02.000Z'),
+      storedJob('done', 'completed', new Date().toISOString()),
+      storedJob('earlier', 'queued', '2026-01-01T00:00:01.000Z')
+    ]);
+    const manager = createManager(store);
+
+    await manager.initialize();
+    await flushJobs();
+
+    expect(processVideo.mock.calls.map(([requestData]) => requestData.songId)).toEqual(['earlier', 'later']);
+    expect(manager.get('later')?.status).toBe('completed');
+    expect(manager.get('done')?.progress).toBe(40);
+  });
+
+  describe('shutdown', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('waits for running jobs and leaves queued jobs persisted', async () => {
+      const finishFirst = deferJob();
+      const store = createStore();
+      const manager = createManager(store);
+
+      const first = manager.submit(request);
+      const second = manager.submit(request);
+      await flushJobs();
+
+      const shutdown = manager.shutdown();
+      expect(manager.isShuttingDown()).toBe(true);
+
+      finishFirst(result);
+
+      await expect(shutdown).resolves.toBe(true);
+      expect(manager.get(first.jobId)?.status).toBe('completed');
+      expect(manager.get(second.jobId)?.status).toBe('queued');
+      expect(processVideo).toHaveBeenCalledTimes(1);
+      expect(store.flush).toHaveBeenCalled();
+    });
+
+    it('kills the FFmpeg commands of jobs still running at the drain timeout', async () => {
+      const kill = jest.fn();
+      processVideo.mockImplementation((_requestData: any, processId: string) => new Promise((_resolve, reject) => {
+        trackProcessCommand(processId, {
+          kill: signal => {
+            kill(signal);
+            reject(new Error(`ffmpeg was killed with signal ${signal}`));
+          }
+        });
+      }));
+      const store = createStore();
+      const manager = createManager(store);
+
+      const job = manager.submit({ ...request, callbackUrl: 'https://example.com/hook' });
+      await flushJobs();
+
+      const shutdown = manager.shutdown();
+      await jest.advanceTimersByTimeAsync(300000);
+
+      await expect(shutdown).resolves.toBe(false);
+      await flushJobs();
+
+      expect(kill).toHaveBeenCalledWith('SIGKILL');
+      // Left as processing so the next start recovers it
+      expect(manager.get(job.jobId)?.status).toBe('processing');
+      expect(store.save).not.toHaveBeenCalledWith(expect.objectContaining({
+        job: expect.objectContaining({ status: 'failed' })
+      }));
+      expect(deliver).not.toHaveBeenCalled();
+    });
+  });
+});
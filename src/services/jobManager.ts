@@ -0,0 +1,354 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { buildErrorResponse } from '../utils/errorResponse';
+import { subscribeToProcessEvents } from '../utils/processEvents';
+import { killProcessCommands } from '../utils/processCommands';
+import { validateProcessVideoRequest } from '../validation/schemas';
+import { VideoProcessor } from './videoProcessor';
+import { WebhookPayload, WebhookService } from './webhookService';
+import { JobStore } from './jobStore';
+import {
+  JobRecord,
+  JobStatus,
+  JobStreamEvent,
+  ProcessingError,
+  ProcessingErrorCode,
+  ProcessingEvent,
+  ProcessingStage
+} from '../types';
+
+// Finished jobs are kept for polling for this long (default 24 hours)
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_MS || '86400000', 10);
+
+// Maximum number of jobs (and therefore FFmpeg encodes) running at once
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_JOBS || '1', 10));
+
+const JOB_STORE_DIR = process.env.JOB_STORE_DIR || path.join(process.cwd(), 'data', 'jobs');
+
+// How long shutdown waits for in-flight jobs before leaving them for recovery (default 5 minutes)
+const SHUTDOWN_DRAIN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_DRAIN_TIMEOUT_MS || '300000', 10);
+
+// Share of overall progress covered by the FFmpeg encode (see VideoProcessor stage progress)
+const ENCODE_PROGRESS_START = 30;
+const ENCODE_PROGRESS_END = 85;
+
+export class JobManager {
+  private jobs = new Map<string, JobRecord>();
+  private requests = new Map<string, any>();
+  private pending: string[] = [];
+  private running = new Map<string, Promise<void>>();
+  // Jobs killed by a shutdown that timed out; they keep their persisted
+  // 'processing' state so the next start recovers them
+  private abandoned = new Set<string>();
+  private deliveries = new Set<Promise<void>>();
+  private waiters = new Map<string, Array<(job: JobRecord) => void>>();
+  private store: JobStore;
+  private events = new EventEmitter();
+  private shuttingDown = false;
+
+  constructor(store: JobStore = new JobStore(JOB_STORE_DIR)) {
+    this.store = store;
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Load persisted jobs and re-queue any that were queued or still running
+   * when the previous process stopped.
+   */
+  async initialize(): Promise<void> {
+    await this.store.initialize();
+    const storedJobs = await this.store.loadAll();
+    const recovered: JobRecord[] = [];
+
+    for (const { job, request } of storedJobs) {
+      this.jobs.set(job.jobId, job);
+
+      if (job.status === 'queued' || job.status === 'processing') {
+        this.requests.set(job.jobId, request);
+        recovered.push(job);
+      }
+    }
+
+    // Resume in original submission order
+    recovered.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of recovered) {
+      this.update(job.jobId, { status: 'queued', stage: null, progress: 0 });
+      this.pending.push(job.jobId);
+    }
+
+    logger.info('Job manager initialized', {
+      storedJobs: storedJobs.length,
+      recoveredJobs: recovered.length,
+      maxConcurrentJobs: MAX_CONCURRENT_JOBS
+    });
+
+    this.pruneExpiredJobs();
+    this.startPendingJobs();
+  }
+
+  /**
+   * Validate and persist a new job, then queue it for background processing.
+   * Throws a VALIDATION_ERROR ProcessingError if the request is invalid so the
+   * caller can reject it before a job is created.
+   */
+  submit(requestData: any): JobRecord {
+    try {
+      validateProcessVideoRequest(requestData);
+    } catch (error) {
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.VALIDATION,
+        'Request validation failed',
+        (error as Error).message
+      );
+    }
+
+    this.pruneExpiredJobs();
+
+    const now = new Date().toISOString();
+    const job: JobRecord = {
+      jobId: uuidv4(),
+      status: 'queued',
+      stage: null,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(job.jobId, job);
+    this.requests.set(job.jobId, requestData);
+    void this.store.save({ job: { ...job }, request: requestData });
+
+    logger.info('Video processing job queued', {
+      jobId: job.jobId,
+      queueDepth: this.pending.length + 1,
+      runningJobs: this.running.size
+    });
+
+    const snapshot = { ...job };
+    this.pending.push(job.jobId);
+    this.startPendingJobs();
+
+    return snapshot;
+  }
+
+  get(jobId: string): JobRecord | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  list(status?: JobStatus): JobRecord[] {
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(job => ({ ...job }));
+  }
+
+  /**
+   * Resolve once the job has completed or failed.
+   */
+  waitForCompletion(jobId: string): Promise<JobRecord> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return Promise.reject(new Error(`Unknown job ${jobId}`));
+    }
+    if (job.status === 'completed' || job.status === 'failed') {
+      return Promise.resolve({ ...job });
+    }
+
+    return new Promise(resolve => {
+      const waiters = this.waiters.get(jobId) || [];
+      waiters.push(resolve);
+      this.waiters.set(jobId, waiters);
+    });
+  }
+
+  /**
+   * Listen to a job's processing events and status changes.
+   * Returns an unsubscribe function.
+   */
+  subscribe(jobId: string, listener: (event: JobStreamEvent) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  isShuttingDown(): boolean {
+    return this.shuttingDown;
+  }
+
+  /**
+   * Stop starting new jobs and wait up to SHUTDOWN_DRAIN_TIMEOUT_MS for in-flight
+   * jobs (and their webhooks) to finish. Jobs still waiting in the queue, and jobs
+   * still running when the timeout hits, stay persisted and resume on next start;
+   * the FFmpeg processes of the latter are killed so they don't outlive the server.
+   * Resolves to false when the drain timed out.
+   */
+  async shutdown(): Promise<boolean> {
+    this.shuttingDown = true;
+
+    logger.info('Draining in-flight jobs', {
+      runningJobs: this.running.size,
+      queuedJobs: this.pending.length,
+      drainTimeoutMs: SHUTDOWN_DRAIN_TIMEOUT_MS
+    });
+
+    const drain = (async () => {
+      await Promise.allSettled(Array.from(this.running.values()));
+      await Promise.allSettled(Array.from(this.deliveries));
+      return true;
+    })();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), SHUTDOWN_DRAIN_TIMEOUT_MS);
+    });
+
+    const drained = await Promise.race([drain, timeout]);
+    clearTimeout(timer);
+
+    if (!drained) {
+      let killedCommands = 0;
+      for (const jobId of this.running.keys()) {
+        this.abandoned.add(jobId);
+        killedCommands += killProcessCommands(jobId);
+      }
+
+      logger.warn('Drain timeout reached, leaving in-flight jobs for recovery', {
+        interruptedJobs: Array.from(this.abandoned),
+        killedCommands,
+        pendingWebhooks: this.deliveries.size,
+        queuedJobs: this.pending.length
+      });
+    }
+
+    await this.store.flush();
+
+    if (drained) {
+      logger.info('All in-flight jobs drained', { queuedJobs: this.pending.length });
+    }
+
+    return drained;
+  }
+
+  private startPendingJobs(): void {
+    while (!this.shuttingDown && this.running.size < MAX_CONCURRENT_JOBS && this.pending.length > 0) {
+      const jobId = this.pending.shift()!;
+      const run = this.run(jobId).finally(() => {
+        this.running.delete(jobId);
+        this.startPendingJobs();
+      });
+      this.running.set(jobId, run);
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const requestData = this.requests.get(jobId);
+    const unsubscribe = subscribeToProcessEvents(jobId, event => this.handleEvent(jobId, event));
+
+    this.update(jobId, { status: 'processing' });
+
+    let payload: WebhookPayload;
+    try {
+      // The job ID doubles as the processId so logs and events line up
+      const processor = new VideoProcessor(jobId);
+      const result = await processor.processVideo(requestData);
+      this.update(jobId, {
+        status: 'completed',
+        progress: 100,
+        result
+      });
+      logger.info('Video processing job completed', { jobId });
+      payload = result;
+    } catch (error) {
+      payload = buildErrorResponse(error);
+      this.update(jobId, {
+        status: 'failed',
+        error: payload.error
+      });
+      logger.error('Video processing job failed', { jobId, error: payload.error });
+    } finally {
+      unsubscribe();
+      this.requests.delete(jobId);
+      this.notifyWaiters(jobId);
+    }
+
+    // The job is already final when the webhook arrives, and slow receivers
+    // don't hold up the job slot
+    if (requestData?.callbackUrl && !this.abandoned.has(jobId)) {
+      this.deliverWebhook(jobId, requestData.callbackUrl, payload);
+    }
+  }
+
+  private deliverWebhook(jobId: string, callbackUrl: string, payload: WebhookPayload): void {
+    const delivery = new WebhookService(jobId).deliver(callbackUrl, payload)
+      .then(() => undefined)
+      .finally(() => this.deliveries.delete(delivery));
+    this.deliveries.add(delivery);
+  }
+
+  private handleEvent(jobId: string, event: ProcessingEvent): void {
+    this.events.emit(jobId, event);
+
+    if (event.type === 'stage') {
+      this.update(jobId, {
+        stage: event.stage,
+        progress: event.progress
+      });
+    } else if (event.type === 'encode') {
+      // Renditions are encoded one after another and share the encode span
+      const span = ENCODE_PROGRESS_END - ENCODE_PROGRESS_START;
+      const encoded = (event.renditionIndex + event.percent / 100) / event.renditionCount;
+      this.update(jobId, {
+        progress: Math.round(ENCODE_PROGRESS_START + span * encoded)
+      });
+    }
+  }
+
+  private update(jobId: string, changes: Partial<JobRecord>): void {
+    const job = this.jobs.get(jobId);
+    if (!job || this.abandoned.has(jobId)) {
+      return;
+    }
+
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+
+    // Progress ticks are frequent during encoding; only status and stage
+    // changes are worth notifying subscribers about and persisting
+    if (Object.keys(changes).every(key => key === 'progress')) {
+      return;
+    }
+
+    this.events.emit(jobId, { type: 'job', job: { ...job } });
+
+    // Only keep the request payload around while the job may still need to run
+    const request = job.status === 'queued' || job.status === 'processing'
+      ? this.requests.get(jobId)
+      : undefined;
+    void this.store.save({ job: { ...job }, request });
+  }
+
+  private notifyWaiters(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    const waiters = this.waiters.get(jobId) || [];
+    this.waiters.delete(jobId);
+
+    if (job) {
+      waiters.forEach(resolve => resolve({ ...job }));
+    }
+  }
+
+  private pruneExpiredJobs(): void {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+
+    for (const [jobId, job] of this.jobs) {
+      const finished = job.status === 'completed' || job.status === 'failed';
+      if (finished && new Date(job.updatedAt).getTime() < cutoff) {
+        this.jobs.delete(jobId);
+        void this.store.remove(jobId);
+      }
+    }
+  }
+}
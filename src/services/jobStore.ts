@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { JobRecord } from '../types';
+
+export interface StoredJob {
+  job: JobRecord;
+  request: any;
+}
+
+/**
+ * File-backed job persistence: one JSON document per job so state survives
+ * crashes and restarts. Writes go through a temp file and rename so a crash
+ * mid-write never leaves a truncated record behind.
+ */
+export class JobStore {
+  private writeChains = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {}
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    logger.info('Job store initialized', { directory: this.directory });
+  }
+
+  async loadAll(): Promise<StoredJob[]> {
+    const files = await fs.readdir(this.directory);
+    const storedJobs: StoredJob[] = [];
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(this.directory, file);
+      try {
+        const content = await fs.readFile(filePath, 'utf-8');
+        storedJobs.push(JSON.parse(content) as StoredJob);
+      } catch (error) {
+        logger.warn('Skipping unreadable job record', {
+          filePath,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    return storedJobs;
+  }
+
+  save(storedJob: StoredJob): Promise<void> {
+    const snapshot = JSON.stringify(storedJob);
+    return this.enqueueWrite(storedJob.job.jobId, async () => {
+      const filePath = this.getFilePath(storedJob.job.jobId);
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf-8');
+      await fs.rename(tempPath, filePath);
+    });
+  }
+
+  remove(jobId: string): Promise<void> {
+    return this.enqueueWrite(jobId, async () => {
+      await fs.rm(this.getFilePath(jobId), { force: true });
+    });
+  }
+
+  // Wait for every pending write to settle (used while shutting down)
+  async flush(): Promise<void> {
+    await Promise.allSettled(Array.from(this.writeChains.values()));
+  }
+
+  private getFilePath(jobId: string): string {
+    return path.join(this.directory, `${jobId}.json`);
+  }
+
+  // Serialize writes per job so an older snapshot never overwrites a newer one
+  private enqueueWrite(jobId: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeChains.get(jobId) || Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch(error => {
+        logger.error('Failed to persist job record', {
+          jobId,
+          error: (error as Error).message
+        });
+      })
+      .finally(() => {
+        if (this.writeChains.get(jobId) === next) {
+          this.writeChains.delete(jobId);
+        }
+      });
+
+    this.writeChains.set(jobId, next);
+    return next;
+  }
+}
@@ -0,0 +1,337 @@
+import fs from 'fs/promises';
+import { ProcessLogger } from '../utils/logger';
+import { FFmpegService } from './ffmpegService';
+import { TimelinePlanner } from './timelinePlanner';
+import { AssDocument, parseAss } from '../utils/assParser';
+import { lintAss } from '../utils/assLinter';
+import { getAvailableFontFamilies } from '../utils/fontCatalog';
+import { describeTimelineClip, getTimelineClips } from '../utils/timelineClips';
+import {
+  AssetValidationIssue,
+  ProcessingContext,
+  ProcessingError,
+  ProcessingErrorCode,
+  ProcessingStage,
+  Rendition
+} from '../types';
+
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Codecs FFmpeg is expected to decode reliably; override with comma-separated lists
+const ALLOWED_VIDEO_CODECS = parseList(
+  process.env.ALLOWED_VIDEO_CODECS || 'h264,hevc,vp8,vp9,av1,mpeg4,prores,mjpeg'
+);
+const ALLOWED_IMAGE_CODECS = parseList(process.env.ALLOWED_IMAGE_CODECS || 'mjpeg,png,webp');
+const ALLOWED_AUDIO_CODECS = parseList(
+  process.env.ALLOWED_AUDIO_CODECS ||
+    'mp3,aac,flac,alac,vorbis,opus,pcm_s16le,pcm_s24le,pcm_s32le,pcm_f32le,pcm_s16be'
+);
+const MAX_SONG_DURATION_SECONDS = parseFloat(process.env.MAX_SONG_DURATION_SECONDS || '900');
+// Treat subtitle lint warnings as validation errors
+const ASS_LINT_STRICT = process.env.ASS_LINT_STRICT === 'true';
+
+// Allowed difference (seconds) between a probed length and the one the request needs
+const DURATION_TOLERANCE = 0.1;
+
+export interface ProbeResult {
+  // Length of the song segment being rendered (songStart to songEnd)
+  songDuration: number;
+  // Infinity for image clips, which can be shown for any length
+  clipSourceDurations: number[];
+  clipHasAudio: boolean[];
+  // Subtitle lint and audio findings that did not fail the job
+  warnings: string[];
+}
+
+export interface SubtitleInput {
+  // Unset for subtitles generated from inline lyrics
+  url?: string;
+  path: string;
+  // Renditions that burn this file in
+  renditions: Rendition[];
+  // Name used in issues and warnings (defaults to "ASS subtitle file N")
+  asset?: string;
+  // Already-parsed script to lint instead of the file, e.g. a re-laid-out copy
+  // that should report the source file's line numbers
+  document?: AssDocument;
+}
+
+/**
+ * Checks downloaded inputs with ffprobe (and a short test decode) before any
+ * encoding starts, so bad media fails fast with a per-asset problem list
+ * instead of an FFmpeg error halfway through the render.
+ */
+export class MediaProbe {
+  private logger: ProcessLogger;
+  private ffmpegService: FFmpegService;
+  private timelinePlanner: TimelinePlanner;
+
+  constructor(processId: string) {
+    this.logger = new ProcessLogger(processId);
+    this.ffmpegService = new FFmpegService(processId);
+    this.timelinePlanner = new TimelinePlanner(processId);
+  }
+
+  async probeAssets(context: ProcessingContext, assFiles: SubtitleInput[]): Promise<ProbeResult> {
+    const startTime = Date.now();
+    this.logger.logStage('Input Probing', 'start', {
+      clipCount: context.localFiles.videoClips.length,
+      assFileCount: assFiles.length
+    });
+
+    const issues: AssetValidationIssue[] = [];
+    // Re-laid-out copies of one file share its asset name, so merge their problems
+    const addIssue = (asset: string, url: string | undefined, problems: string[]) => {
+      const existing = issues.find(issue => issue.asset === asset);
+      if (existing) {
+        existing.problems.push(...problems.filter(problem => !existing.problems.includes(problem)));
+      } else if (problems.length > 0) {
+        issues.push({ asset, ...(url && { url }), problems });
+      }
+    };
+
+    // Step 1: Video clips, including the intro and outro cards
+    const warnings = new Set<string>();
+    const clipSourceDurations: number[] = [];
+    const clipHasAudio: boolean[] = [];
+    const clips = getTimelineClips(context.request);
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i]!;
+      const asset = describeTimelineClip(context.request, i);
+      const requiredEnd = (clip.startTime || 0) + this.timelinePlanner.getSourceDuration(clip);
+      const { duration, hasAudio, problems } = clip.type === 'image'
+        ? await this.probeImage(context.localFiles.videoClips[i]!, asset)
+        : await this.probeVideoClip(context.localFiles.videoClips[i]!, asset, requiredEnd);
+      clipSourceDurations.push(duration);
+      clipHasAudio.push(hasAudio);
+      addIssue(asset, clip.url, problems);
+      if (clip.keepAudio && !hasAudio && problems.length === 0) {
+        warnings.add(`${asset}: keepAudio is set but the clip has no audio stream`);
+      }
+    }
+
+    const logo = context.request.branding?.logo;
+    if (logo && context.localFiles.logoFile) {
+      const { problems } = await this.probeImage(context.localFiles.logoFile, 'branding logo');
+      addIssue('branding logo', logo.url, problems);
+    }
+
+    // Step 2: Song and voice-over
+    const song = await this.probeSong(
+      context.localFiles.songFile,
+      context.request.songStart || 0,
+      context.request.songEnd
+    );
+    addIssue('song audio', context.request.songUrl, song.problems);
+    if (context.localFiles.voiceOverFile) {
+      const voiceOver = await this.probeAudioTrack(context.localFiles.voiceOverFile, 'voice-over audio');
+      addIssue('voice-over audio', context.request.voiceOver?.url, voiceOver.problems);
+    }
+
+    // Step 3: Subtitles, linted against the song and every rendition that uses them
+    const availableFonts = await getAvailableFontFamilies();
+    const downloadedUrls = [...new Set(assFiles.filter(assFile => !assFile.asset).map(assFile => assFile.url))];
+    for (const assFile of assFiles) {
+      const asset = assFile.asset || (downloadedUrls.length === 1
+        ? 'ASS subtitle file'
+        : `ASS subtitle file ${downloadedUrls.indexOf(assFile.url) + 1}`);
+      const { document, problems } = await this.probeAssFile(assFile.path, asset, assFile.document);
+
+      if (document) {
+        const lintMessages = lintAss(document, {
+          availableFonts,
+          outputs: assFile.renditions,
+          ...(Number.isFinite(song.duration) && { songDuration: song.duration })
+        }).map(issue => issue.message);
+
+        if (ASS_LINT_STRICT) {
+          problems.push(...lintMessages);
+        } else {
+          lintMessages.forEach(message => warnings.add(`${asset}: ${message}`));
+        }
+      }
+      addIssue(asset, assFile.url, problems);
+    }
+
+    if (issues.length > 0) {
+      this.logger.logStage('Input Probing', 'error', { issues });
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.INPUT_PROBING,
+        'Input media failed validation',
+        issues.map(issue => `${issue.asset}: ${issue.problems.join(', ')}`).join('; '),
+        issues
+      );
+    }
+
+    const probeWarnings = [...warnings];
+    if (probeWarnings.length > 0) {
+      this.logger.warn('Input probing warnings', { warnings: probeWarnings });
+    }
+
+    this.logger.logTiming('Input Probing', startTime, {
+      songDuration: song.duration,
+      clipSourceDurations,
+      clipHasAudio,
+      warningCount: probeWarnings.length
+    });
+
+    return { songDuration: song.duration, clipSourceDurations, clipHasAudio, warnings: probeWarnings };
+  }
+
+  private async probeVideoClip(
+    filePath: string,
+    description: string,
+    requiredEnd: number
+  ): Promise<{ duration: number; hasAudio: boolean; problems: string[] }> {
+    const metadata = await this.readMetadata(filePath, description);
+    if (!metadata) {
+      return { duration: NaN, hasAudio: false, problems: ['file is not a readable media file'] };
+    }
+
+    const problems: string[] = [];
+    const hasAudio = (metadata.streams || []).some((stream: any) => stream.codec_type === 'audio');
+    const videoStream = (metadata.streams || []).find(
+      (stream: any) => stream.codec_type === 'video' && !stream.disposition?.attached_pic
+    );
+    const duration = parseFloat(metadata.format?.duration);
+
+    if (!videoStream) {
+      problems.push('no video stream');
+    } else if (!ALLOWED_VIDEO_CODECS.includes(videoStream.codec_name)) {
+      problems.push(
+        `video codec "${videoStream.codec_name}" is not supported (allowed: ${ALLOWED_VIDEO_CODECS.join(', ')})`
+      );
+    } else {
+      const decodeError = await this.ffmpegService.checkDecodable(filePath, 'video');
+      if (decodeError) {
+        problems.push(`video stream could not be decoded: ${decodeError}`);
+      }
+    }
+
+    if (!Number.isFinite(duration)) {
+      problems.push('duration could not be determined');
+    } else if (duration + DURATION_TOLERANCE < requiredEnd) {
+      problems.push(`needs footage up to ${requiredEnd.toFixed(2)}s but is only ${duration.toFixed(2)}s long`);
+    }
+
+    return { duration, hasAudio, problems };
+  }
+
+  // A still image (image clip or logo): a single decodable frame in an allowed image codec
+  private async probeImage(
+    filePath: string,
+    description: string
+  ): Promise<{ duration: number; hasAudio: boolean; problems: string[] }> {
+    const metadata = await this.readMetadata(filePath, description);
+    if (!metadata) {
+      return { duration: Infinity, hasAudio: false, problems: ['file is not a readable image file'] };
+    }
+
+    const problems: string[] = [];
+    const imageStream = (metadata.streams || []).find((stream: any) => stream.codec_type === 'video');
+
+    if (!imageStream) {
+      problems.push('no image stream');
+    } else if (!ALLOWED_IMAGE_CODECS.includes(imageStream.codec_name)) {
+      problems.push(
+        `image codec "${imageStream.codec_name}" is not supported (allowed: ${ALLOWED_IMAGE_CODECS.join(', ')})`
+      );
+    } else {
+      const decodeError = await this.ffmpegService.checkDecodable(filePath, 'video');
+      if (decodeError) {
+        problems.push(`image could not be decoded: ${decodeError}`);
+      }
+    }
+
+    return { duration: Infinity, hasAudio: false, problems };
+  }
+
+  // The returned duration is that of the requested segment
+  private async probeSong(
+    filePath: string,
+    songStart: number,
+    songEnd?: number
+  ): Promise<{ duration: number; problems: string[] }> {
+    const { duration, problems } = await this.probeAudioTrack(filePath, 'song audio');
+
+    if (duration > MAX_SONG_DURATION_SECONDS) {
+      problems.push(`is ${duration.toFixed(1)}s long; the maximum is ${MAX_SONG_DURATION_SECONDS}s`);
+    }
+    if (songStart >= duration) {
+      problems.push(`songStart ${songStart}s is not before the end of the song (${duration.toFixed(2)}s)`);
+    } else if (songEnd !== undefined && songEnd > duration + DURATION_TOLERANCE) {
+      problems.push(`songEnd ${songEnd}s is past the end of the song (${duration.toFixed(2)}s)`);
+    }
+
+    return { duration: Math.min(songEnd ?? duration, duration) - songStart, problems };
+  }
+
+  // An audio-only input (song or voice-over) with a decodable, allowed audio stream
+  private async probeAudioTrack(
+    filePath: string,
+    description: string
+  ): Promise<{ duration: number; problems: string[] }> {
+    const metadata = await this.readMetadata(filePath, description);
+    if (!metadata) {
+      return { duration: NaN, problems: ['file is not a readable media file'] };
+    }
+
+    const problems: string[] = [];
+    const audioStream = (metadata.streams || []).find((stream: any) => stream.codec_type === 'audio');
+    const duration = parseFloat(metadata.format?.duration);
+
+    if (!audioStream) {
+      problems.push('no audio stream');
+    } else if (!ALLOWED_AUDIO_CODECS.includes(audioStream.codec_name)) {
+      problems.push(
+        `audio codec "${audioStream.codec_name}" is not supported (allowed: ${ALLOWED_AUDIO_CODECS.join(', ')})`
+      );
+    } else {
+      const decodeError = await this.ffmpegService.checkDecodable(filePath, 'audio');
+      if (decodeError) {
+        problems.push(`audio stream could not be decoded: ${decodeError}`);
+      }
+    }
+
+    if (!Number.isFinite(duration) || duration <= 0) {
+      problems.push('duration could not be determined');
+    }
+
+    return { duration, problems };
+  }
+
+  private async probeAssFile(
+    filePath: string,
+    description: string,
+    parsed?: AssDocument
+  ): Promise<{ document: AssDocument | null; problems: string[] }> {
+    const problems: string[] = [];
+    let document: AssDocument | null = parsed || null;
+
+    if (!document) {
+      try {
+        document = parseAss(await fs.readFile(filePath, 'utf-8'));
+      } catch (error) {
+        problems.push((error as Error).message);
+      }
+    }
+
+    const metadata = await this.readMetadata(filePath, description);
+    const subtitleStream = metadata?.streams?.find((stream: any) => stream.codec_type === 'subtitle');
+    if (!subtitleStream || !['ass', 'ssa'].includes(subtitleStream.codec_name)) {
+      problems.push('FFmpeg could not parse the file as ASS subtitles');
+    }
+
+    return { document, problems };
+  }
+
+  // ffprobe metadata, or null when the file can't be probed at all
+  private async readMetadata(filePath: string, description: string): Promise<any | null> {
+    try {
+      return await this.ffmpegService.extractMetadata(filePath, description);
+    } catch {
+      return null;
+    }
+  }
+}
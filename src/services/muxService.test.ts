@@ -0,0 +1,52 @@
+import { MuxService } from './muxService';
+
+const mockCreateTrack = jest.fn();
+
+jest.mock('@mux/mux-node', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ video: { assets: { createTrack: mockCreateTrack } } }))
+}));
+
+beforeEach(() => {
+  mockCreateTrack.mockReset().mockResolvedValue({ id: 'track-1' });
+  process.env.MUX_TOKEN_ID = 'token-id';
+  process.env.MUX_TOKEN_SECRET = 'token-secret';
+});
+
+afterAll(() => {
+  delete process.env.MUX_TOKEN_ID;
+  delete process.env.MUX_TOKEN_SECRET;
+});
+
+describe('MuxService.addTextTrack', () => {
+  it('adds a subtitles track fetched from the caption URL', async () => {
+    const service = new MuxService('test');
+
+    await expect(service.addTextTrack('asset-1', 'https://cdn.example.com/captions.vtt', 'en', 'English'))
+      .resolves.toBe('track-1');
+    expect(mockCreateTrack).toHaveBeenCalledWith('asset-1', expect.objectContaining({
+      url: 'https://cdn.example.com/captions.vtt',
+      type: 'text',
+      language_code: 'en'
+    }));
+  });
+
+  it.each([
+    'http://localhost:3000/storage/captions.vtt',
+    'http://127.0.0.1:3000/storage/captions.vtt',
+    'http://[::1]:3000/storage/captions.vtt'
+  ])('skips %s, which Mux cannot fetch', async url => {
+    const service = new MuxService('test');
+
+    await expect(service.addTextTrack('asset-1', url, 'en', 'English')).resolves.toBeUndefined();
+    expect(mockCreateTrack).not.toHaveBeenCalled();
+  });
+
+  it('returns undefined when Mux rejects the track', async () => {
+    mockCreateTrack.mockRejectedValue(new Error('invalid file'));
+    const service = new MuxService('test');
+
+    await expect(service.addTextTrack('asset-1', 'https://cdn.example.com/captions.vtt', 'en', 'English'))
+      .resolves.toBeUndefined();
+  });
+});
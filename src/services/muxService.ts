@@ -1,8 +1,16 @@
 import Mux from '@mux/mux-node';
+import axios from 'axios';
+import { createReadStream } from 'fs';
 import fs from 'fs/promises';
 import { ProcessLogger } from '../utils/logger';
+import { publishProcessEvent } from '../utils/processEvents';
 import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../types';
 
+// Direct uploads accept resumable chunks; sizes must be a multiple of 256 KiB
+const UPLOAD_CHUNK_SIZE = (parseInt(process.env.MUX_UPLOAD_CHUNK_SIZE_MB || '16', 10) || 16) * 1024 * 1024;
+const UPLOAD_MAX_RETRIES = parseInt(process.env.MUX_UPLOAD_MAX_RETRIES || '5', 10);
+const UPLOAD_RETRY_DELAY_MS = 1000;
+
 export interface MuxUploadResult {
   assetId: string;
   playbackId: string;
@@ -10,10 +18,12 @@ export interface MuxUploadResult {
 
 export class MuxService {
   private logger: ProcessLogger;
+  private processId: string;
   private mux: Mux;
 
   constructor(processId: string) {
     this.logger = new ProcessLogger(processId);
+    this.processId = processId;
     
     const tokenId = process.env.MUX_TOKEN_ID;
     const tokenSecret = process.env.MUX_TOKEN_SECRET;
@@ -84,21 +94,12 @@ export class MuxService {
         uploadResponse: JSON.stringify(upload, null, 2)
       });
 
-      // Read the video file
-      const videoBuffer = await fs.readFile(localFilePath);
-      
-      // Upload the video file to the signed URL
-      const uploadResponse = await fetch(upload.url, {
-        method: 'PUT',
-        body: videoBuffer,
-        headers: {
-          'Content-Type': 'video/mp4',
-        },
-      });
+      this.reportStatus('uploading', { uploadId: upload.id, fileSize: fileStats.size });
 
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed with status ${uploadResponse.status}: ${uploadResponse.statusText}`);
-      }
+      // Stream the video file to the signed URL in resumable chunks
+      await this.uploadInChunks(upload.url, localFilePath, fileStats.size, upload.id);
+
+      this.reportStatus('uploaded', { uploadId: upload.id });
 
       // Wait for the asset to be created and get the playback ID
       // For Direct Uploads, the asset_id might not be available immediately
@@ -150,10 +151,12 @@ export class MuxService {
       const maxRetries = 30; // Wait up to 5 minutes (30 * 10 seconds)
 
       this.logger.info('Waiting for Mux asset to be ready', { assetId });
+      this.reportStatus('asset_created', { assetId });
 
       while (retries < maxRetries) {
         try {
           asset = await this.mux.video.assets.retrieve(assetId);
+          this.reportStatus(`asset_${asset.status}`, { assetId, retry: retries });
           
           if (asset.status === 'ready' && asset.playback_ids && asset.playback_ids.length > 0) {
             break;
@@ -217,6 +220,138 @@ export class MuxService {
     }
   }
 
+  /**
+   * Upload a file to a resumable direct-upload URL one chunk at a time, so at
+   * most one chunk is in flight. After a failed chunk, the server is asked
+   * how many bytes it has persisted and the upload resumes from there.
+   */
+  private async uploadInChunks(
+    uploadUrl: string,
+    localFilePath: string,
+    fileSize: number,
+    uploadId: string
+  ): Promise<void> {
+    let offset = 0;
+    let failures = 0;
+
+    while (offset < fileSize) {
+      const end = Math.min(offset + UPLOAD_CHUNK_SIZE, fileSize) - 1;
+
+      try {
+        const response = await axios.put(uploadUrl, createReadStream(localFilePath, { start: offset, end }), {
+          headers: {
+            'Content-Type': 'video/mp4',
+            'Content-Length': end - offset + 1,
+            'Content-Range': `bytes ${offset}-${end}/${fileSize}`
+          },
+          maxBodyLength: Infinity,
+          timeout: 300000, // 5 minutes per chunk
+          validateStatus: status => status === 308 || (status >= 200 && status < 300)
+        });
+
+        const persisted = response.status === 308
+          ? this.parsePersistedBytes(response.headers['range'])
+          : fileSize;
+        if (persisted <= offset) {
+          throw new Error(`Upload made no progress past byte ${offset}`);
+        }
+        offset = persisted;
+        failures = 0;
+
+        this.reportStatus('uploading', { uploadId, bytesUploaded: offset, fileSize });
+
+      } catch (error) {
+        failures++;
+        if (failures > UPLOAD_MAX_RETRIES) {
+          throw error;
+        }
+
+        const delayMs = UPLOAD_RETRY_DELAY_MS * Math.pow(2, failures - 1);
+        this.logger.warn('Mux upload chunk failed, resuming', {
+          uploadId,
+          offset,
+          attempt: failures,
+          delayMs,
+          error: (error as Error).message
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+
+        offset = await this.queryPersistedBytes(uploadUrl, fileSize).catch(() => offset);
+      }
+    }
+  }
+
+  // Ask a resumable upload URL how many bytes it already holds
+  private async queryPersistedBytes(uploadUrl: string, fileSize: number): Promise<number> {
+    const response = await axios.put(uploadUrl, undefined, {
+      headers: {
+        'Content-Length': 0,
+        'Content-Range': `bytes */${fileSize}`
+      },
+      timeout: 30000,
+      validateStatus: status => status === 308 || (status >= 200 && status < 300)
+    });
+
+    return response.status === 308
+      ? this.parsePersistedBytes(response.headers['range'])
+      : fileSize;
+  }
+
+  // A "Range: bytes=0-N" header means bytes up to N are stored; no header means none
+  private parsePersistedBytes(rangeHeader: string | undefined): number {
+    const match = rangeHeader?.match(/bytes=0-(\d+)/);
+    return match ? parseInt(match[1]!, 10) + 1 : 0;
+  }
+
+  private reportStatus(status: string, details?: Record<string, any>): void {
+    publishProcessEvent(this.processId, {
+      type: 'upload',
+      target: 'mux',
+      status,
+      ...(details ? { details } : {})
+    });
+  }
+
+  /**
+   * Attach a subtitle file (WebVTT or SRT, fetched by Mux from the URL) to an
+   * asset as a text track. Returns the track ID, or undefined when Mux
+   * rejects it; captions are non-fatal, so the failure is only logged.
+   * URLs on this machine (e.g. local storage) are skipped, as Mux can't fetch them.
+   */
+  async addTextTrack(
+    assetId: string,
+    url: string,
+    languageCode: string,
+    name: string
+  ): Promise<string | undefined> {
+    if (isLoopbackUrl(url)) {
+      this.logger.warn('Skipping Mux text track, caption URL is not publicly reachable', { assetId, url });
+      return undefined;
+    }
+
+    try {
+      const track = await this.mux.video.assets.createTrack(assetId, {
+        url,
+        type: 'text',
+        text_type: 'subtitles',
+        language_code: languageCode,
+        name,
+        closed_captions: false
+      });
+
+      this.logger.info('Mux text track added', { assetId, trackId: track.id, languageCode, url });
+      return track.id;
+
+    } catch (error) {
+      this.logger.warn('Failed to add Mux text track', {
+        assetId,
+        url,
+        error: (error as Error).message
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Delete a Mux asset (cleanup)
    */
@@ -263,4 +398,13 @@ export class MuxService {
       );
     }
   }
-} 
\ No newline at end of file
+}
+
+function isLoopbackUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return hostname === 'localhost' || hostname === '[::1]' || /^127\./.test(hostname);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,22 @@
+import { PublishTarget } from '../../types';
+import { LocalFolderPublisher } from './localFolderPublisher';
+import { MuxPublisher } from './muxPublisher';
+import { NoopPublisher } from './noopPublisher';
+import { Publisher } from './publisher';
+
+export { PublishInput, Publisher } from './publisher';
+
+const PUBLISHERS: Record<PublishTarget, (processId: string) => Publisher> = {
+  'mux': processId => new MuxPublisher(processId),
+  'local-folder': processId => new LocalFolderPublisher(processId),
+  'none': () => new NoopPublisher()
+};
+
+/**
+ * Create the publishers for a request. Publishers check their own
+ * configuration on construction, so a misconfigured target fails the job
+ * before any rendering starts.
+ */
+export function createPublishers(targets: PublishTarget[], processId: string): Publisher[] {
+  return targets.map(target => PUBLISHERS[target](processId));
+}
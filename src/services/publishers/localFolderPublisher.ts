@@ -0,0 +1,43 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProcessLogger } from '../../utils/logger';
+import { ProcessingError, ProcessingErrorCode, ProcessingStage, PublishResult } from '../../types';
+import { PublishInput, Publisher } from './publisher';
+
+/**
+ * Copies renditions into PUBLISH_LOCAL_DIR, e.g. a folder watched by
+ * another system or mounted from a shared volume.
+ */
+export class LocalFolderPublisher implements Publisher {
+  readonly target = 'local-folder' as const;
+  private logger: ProcessLogger;
+  private directory: string;
+
+  constructor(processId: string) {
+    this.logger = new ProcessLogger(processId);
+    this.directory = path.resolve(process.env.PUBLISH_LOCAL_DIR || './data/published');
+  }
+
+  async publish(input: PublishInput): Promise<PublishResult> {
+    const startTime = Date.now();
+    const destination = path.join(this.directory, input.songId, input.fileName);
+    this.logger.logStage('Local Folder Publish', 'start', { destination });
+
+    try {
+      await fs.mkdir(path.dirname(destination), { recursive: true });
+      await fs.copyFile(input.localFilePath, destination);
+      this.logger.logTiming('Local Folder Publish', startTime, { destination });
+
+      return { target: this.target, path: destination };
+
+    } catch (error) {
+      this.logger.error('Failed to publish video to local folder', error as Error, { destination });
+      throw new ProcessingError(
+        ProcessingErrorCode.UPLOAD_FAILED,
+        ProcessingStage.OUTPUT_UPLOAD,
+        'Failed to publish video to local folder',
+        (error as Error).message
+      );
+    }
+  }
+}
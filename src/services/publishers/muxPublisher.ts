@@ -0,0 +1,33 @@
+import { MuxService } from '../muxService';
+import { PublishResult } from '../../types';
+import { PublishInput, Publisher } from './publisher';
+
+export class MuxPublisher implements Publisher {
+  readonly target = 'mux' as const;
+  private muxService: MuxService;
+
+  constructor(processId: string) {
+    this.muxService = new MuxService(processId);
+  }
+
+  async publish(input: PublishInput): Promise<PublishResult> {
+    const { assetId, playbackId } = await this.muxService.uploadVideo(
+      input.localFilePath,
+      input.songId,
+      input.processId,
+      input.title
+    );
+
+    const textTrackId = input.captions
+      ? await this.muxService.addTextTrack(assetId, input.captions.url, input.captions.language, input.captions.label)
+      : undefined;
+
+    return {
+      target: this.target,
+      assetId,
+      playbackId,
+      url: `https://stream.mux.com/${playbackId}.m3u8`,
+      ...(textTrackId && { textTrackId })
+    };
+  }
+}
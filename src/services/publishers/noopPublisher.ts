@@ -0,0 +1,11 @@
+import { PublishResult } from '../../types';
+import { Publisher } from './publisher';
+
+// Explicitly publishes nothing; the video is only kept in storage
+export class NoopPublisher implements Publisher {
+  readonly target = 'none' as const;
+
+  async publish(): Promise<PublishResult> {
+    return { target: this.target };
+  }
+}
@@ -0,0 +1,25 @@
+import { PublishResult, PublishTarget } from '../../types';
+
+export interface PublishInput {
+  localFilePath: string;
+  songId: string;
+  processId: string;
+  // File name the rendition was stored under
+  fileName: string;
+  title?: string;
+  // Caption sidecar for targets that take subtitle tracks
+  captions?: {
+    url: string;
+    language: string;
+    label: string;
+  };
+}
+
+/**
+ * Destination a rendered video is handed to after it has been uploaded to
+ * storage, such as a streaming platform.
+ */
+export interface Publisher {
+  readonly target: PublishTarget;
+  publish(input: PublishInput): Promise<PublishResult>;
+}
@@ -0,0 +1,43 @@
+import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../../types';
+import { LocalStorageProvider } from './localStorageProvider';
+import { S3StorageProvider } from './s3StorageProvider';
+import { StorageProvider, StorageProviderName } from './storageProvider';
+import { VercelBlobStorageProvider } from './vercelBlobStorageProvider';
+
+export { StorageProvider, StorageProviderName } from './storageProvider';
+export { LocalStorageProvider } from './localStorageProvider';
+export { S3StorageProvider } from './s3StorageProvider';
+export { VercelBlobStorageProvider } from './vercelBlobStorageProvider';
+
+const STORAGE_PROVIDERS: Record<StorageProviderName, () => StorageProvider> = {
+  'vercel-blob': () => new VercelBlobStorageProvider(),
+  's3': () => new S3StorageProvider(),
+  'local': () => new LocalStorageProvider()
+};
+
+let storageProvider: StorageProvider | undefined;
+
+/**
+ * The provider selected by STORAGE_PROVIDER (default Vercel Blob). Local disk
+ * is only used when selected explicitly, so a missing BLOB_READ_WRITE_TOKEN
+ * fails at startup instead of silently storing outputs on the server.
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!storageProvider) {
+    const name = process.env.STORAGE_PROVIDER || 'vercel-blob';
+    const createProvider = STORAGE_PROVIDERS[name as StorageProviderName];
+
+    if (!createProvider) {
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.VALIDATION,
+        `Unknown STORAGE_PROVIDER "${name}"`,
+        `Supported providers: ${Object.keys(STORAGE_PROVIDERS).join(', ')}`
+      );
+    }
+
+    storageProvider = createProvider();
+  }
+
+  return storageProvider;
+}
@@ -0,0 +1,46 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { joinKey, StorageProvider } from './storageProvider';
+
+/**
+ * Stores outputs on local disk, for development without cloud credentials.
+ * The server exposes LOCAL_STORAGE_DIR under /storage so returned URLs resolve.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  readonly rootDir: string;
+  private publicUrl: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || './data/storage');
+    this.publicUrl = (
+      process.env.LOCAL_STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}/storage`
+    ).replace(/\/+$/, '');
+  }
+
+  buildKey(...segments: string[]): string {
+    return joinKey(...segments);
+  }
+
+  async upload(localFilePath: string, key: string): Promise<string> {
+    const destination = this.resolveKey(key);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.copyFile(localFilePath, destination);
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(url: string): Promise<void> {
+    if (!url.startsWith(`${this.publicUrl}/`)) {
+      throw new Error(`URL is not in local storage: ${url}`);
+    }
+    await fs.rm(this.resolveKey(url.slice(this.publicUrl.length + 1)), { force: true });
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,98 @@
+import { DeleteObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { createReadStream } from 'fs';
+import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../../types';
+import { joinKey, StorageProvider } from './storageProvider';
+
+// S3 requires multipart parts of at least 5 MiB (except the last)
+const MIN_PART_SIZE_MB = 5;
+// Number of parts uploaded concurrently
+const PART_QUEUE_SIZE = 4;
+
+/**
+ * Amazon S3 or any S3-compatible service (MinIO, R2, ...). Set S3_ENDPOINT
+ * for non-AWS services; path-style addressing is then used by default.
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+  private publicUrl: string;
+  private partSize: number;
+
+  constructor() {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.VALIDATION,
+        'S3_BUCKET environment variable is required',
+        'Missing S3 bucket name'
+      );
+    }
+
+    const region = process.env.S3_REGION || 'us-east-1';
+    const endpoint = process.env.S3_ENDPOINT?.replace(/\/+$/, '');
+    const forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(endpoint);
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+    // Without explicit keys the SDK's default credential chain is used
+    this.client = new S3Client({
+      region,
+      forcePathStyle,
+      ...(endpoint && { endpoint }),
+      ...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } })
+    });
+    this.bucket = bucket;
+    this.prefix = process.env.S3_KEY_PREFIX || '';
+    this.partSize = Math.max(
+      MIN_PART_SIZE_MB,
+      parseInt(process.env.S3_PART_SIZE_MB || '16', 10) || 16
+    ) * 1024 * 1024;
+    this.publicUrl = (
+      process.env.S3_PUBLIC_URL ||
+      (endpoint && forcePathStyle ? `${endpoint}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`)
+    ).replace(/\/+$/, '');
+  }
+
+  buildKey(...segments: string[]): string {
+    return joinKey(this.prefix, ...segments);
+  }
+
+  /**
+   * Streams the file as a multipart upload; only PART_QUEUE_SIZE parts are
+   * buffered at a time and failed parts are retried by the SDK. Small files
+   * go up in a single request.
+   */
+  async upload(localFilePath: string, key: string, contentType: string): Promise<string> {
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: createReadStream(localFilePath, { highWaterMark: 1024 * 1024 }),
+        ContentType: contentType
+      },
+      partSize: this.partSize,
+      queueSize: PART_QUEUE_SIZE,
+      leavePartsOnError: false
+    });
+
+    await upload.done();
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async delete(url: string): Promise<void> {
+    if (!url.startsWith(`${this.publicUrl}/`)) {
+      throw new Error(`URL is not in bucket ${this.bucket}: ${url}`);
+    }
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: url.slice(this.publicUrl.length + 1)
+    }));
+  }
+}
@@ -0,0 +1,24 @@
+export type StorageProviderName = 'vercel-blob' | 's3' | 'local';
+
+/**
+ * Backend that rendered outputs are written to. Keys are '/'-separated
+ * object paths; `upload` returns the public URL of the stored object.
+ */
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+
+  // Object key for the given path segments, including any configured prefix
+  buildKey(...segments: string[]): string;
+
+  upload(localFilePath: string, key: string, contentType: string): Promise<string>;
+
+  // Delete an object previously returned by `upload`
+  delete(url: string): Promise<void>;
+}
+
+export function joinKey(...segments: string[]): string {
+  return segments
+    .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+    .filter(segment => segment.length > 0)
+    .join('/');
+}
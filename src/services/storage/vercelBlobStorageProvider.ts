@@ -0,0 +1,46 @@
+import { put, del } from '@vercel/blob';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import { ProcessingError, ProcessingErrorCode, ProcessingStage } from '../../types';
+import { joinKey, StorageProvider } from './storageProvider';
+
+// Files larger than this are sent as a multipart upload (parts retried individually)
+const MULTIPART_THRESHOLD_BYTES = 8 * 1024 * 1024;
+
+export class VercelBlobStorageProvider implements StorageProvider {
+  readonly name = 'vercel-blob' as const;
+  private token: string;
+
+  constructor() {
+    this.token = process.env.BLOB_READ_WRITE_TOKEN || '';
+
+    if (!this.token) {
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.VALIDATION,
+        'BLOB_READ_WRITE_TOKEN environment variable is required',
+        'Missing Vercel Blob token'
+      );
+    }
+  }
+
+  buildKey(...segments: string[]): string {
+    return joinKey(...segments);
+  }
+
+  async upload(localFilePath: string, key: string, contentType: string): Promise<string> {
+    const fileStats = await fs.stat(localFilePath);
+    const blob = await put(key, createReadStream(localFilePath), {
+      access: 'public',
+      token: this.token,
+      contentType,
+      addRandomSuffix: true,
+      multipart: fileStats.size > MULTIPART_THRESHOLD_BYTES
+    });
+    return blob.url;
+  }
+
+  async delete(url: string): Promise<void> {
+    await del(url, { token: this.token });
+  }
+}
@@ -0,0 +1,377 @@
+import fs from 'fs/promises';
+import { ProcessLogger } from '../utils/logger';
+import { AssDocument, AssStyle, parseAss, serializeAss } from '../utils/assParser';
+import { getPlayRes } from '../utils/assLinter';
+import { needsRelayout, relayoutAss } from '../utils/assRelayout';
+import { delayAssTimeline, trimAssTimeline } from '../utils/assTimeline';
+import { assToCues, formatCaptions } from '../utils/captionWriter';
+import { LyricsParseError, TimedLyricLine, parseJsonLyrics, parseLyrics } from '../utils/lyricsParser';
+import {
+  CaptionFormat,
+  LyricsInput,
+  LyricsWordTiming,
+  ProcessingError,
+  ProcessingErrorCode,
+  ProcessingStage,
+  Rendition,
+  SubtitlePreset
+} from '../types';
+
+interface PresetStyle {
+  // Family name of a font bundled in fonts/
+  fontName: string;
+  bold: boolean;
+  italic: boolean;
+  // Font size as a share of the output's shorter side
+  fontSizeRatio: number;
+  // With \k, secondary is the colour before a word is sung and primary after
+  primaryColour: string;
+  secondaryColour: string;
+  outlineColour: string;
+  backColour: string;
+  // Outline and shadow widths as a share of the font size
+  outlineRatio: number;
+  shadowRatio: number;
+}
+
+const PRESETS: Record<SubtitlePreset, PresetStyle> = {
+  playful: {
+    fontName: 'Sniglet',
+    bold: false,
+    italic: false,
+    fontSizeRatio: 0.065,
+    primaryColour: '&H008943FE',
+    secondaryColour: '&H0099E735',
+    outlineColour: '&H00FFFFFF',
+    backColour: '&H00000000',
+    outlineRatio: 0.1,
+    shadowRatio: 0
+  },
+  bold: {
+    fontName: 'Kanit',
+    bold: false,
+    italic: false,
+    fontSizeRatio: 0.06,
+    primaryColour: '&H0000D7FF',
+    secondaryColour: '&H00FFFFFF',
+    outlineColour: '&H00000000',
+    backColour: '&H80000000',
+    outlineRatio: 0.08,
+    shadowRatio: 0.05
+  },
+  elegant: {
+    fontName: 'Cormorant Garamond',
+    bold: false,
+    italic: true,
+    fontSizeRatio: 0.07,
+    primaryColour: '&H00FFFFFF',
+    secondaryColour: '&H00A0A0A0',
+    outlineColour: '&H00201818',
+    backColour: '&H00000000',
+    outlineRatio: 0.06,
+    shadowRatio: 0.03
+  }
+};
+
+// Distance from the bottom edge, as a share of the output height
+const MARGIN_V_RATIO = 0.1;
+// Side margins, as a share of the output width
+const MARGIN_H_RATIO = 0.06;
+
+/**
+ * Prepares the ASS script each rendition burns in: karaoke scripts built from
+ * timed lyrics (see lyricsParser) with one of the bundled-font style presets,
+ * copies of supplied scripts re-laid out for the rendition's frame, and copies
+ * cut to the rendered song segment. Also converts a rendition's script into
+ * plain-text caption files.
+ */
+export class SubtitleGenerator {
+  private logger: ProcessLogger;
+
+  constructor(processId: string) {
+    this.logger = new ProcessLogger(processId);
+  }
+
+  /**
+   * Parse the request's lyrics, read from the downloaded file when they were
+   * given by URL. Unparseable lyrics fail the job with a VALIDATION_ERROR.
+   */
+  async loadLyrics(lyrics: LyricsInput, lyricsFile?: string): Promise<TimedLyricLine[]> {
+    try {
+      const lines = lyricsFile
+        ? parseLyrics(await fs.readFile(lyricsFile, 'utf-8'), lyrics.format)
+        : lyrics.lines
+          ? parseJsonLyrics(lyrics.lines)
+          : parseLyrics(lyrics.content || '', lyrics.format);
+
+      this.logger.info('Lyrics parsed', {
+        format: lyrics.format,
+        lineCount: lines.length,
+        wordTimed: lines.some(line => line.words)
+      });
+      return lines;
+    } catch (error) {
+      if (!(error instanceof LyricsParseError)) {
+        throw error;
+      }
+
+      const asset = `${lyrics.format.toUpperCase()} lyrics`;
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.SUBTITLE_GENERATION,
+        'Lyrics could not be parsed',
+        `${asset}: ${error.message}`,
+        [{ asset, ...(lyrics.url && { url: lyrics.url }), problems: [error.message] }]
+      );
+    }
+  }
+
+  async writeAss(
+    lines: TimedLyricLine[],
+    lyrics: LyricsInput,
+    rendition: Rendition,
+    outputPath: string,
+    title?: string
+  ): Promise<void> {
+    const preset = lyrics.preset || 'playful';
+    const document = this.buildDocument(lines, preset, lyrics.karaoke !== false, rendition, title);
+    await fs.writeFile(outputPath, serializeAss(document), 'utf-8');
+
+    this.logger.info('Subtitles generated from lyrics', {
+      rendition: rendition.name,
+      preset,
+      eventCount: document.events.length,
+      outputPath
+    });
+  }
+
+  /**
+   * Write a copy of the ASS file laid out for the rendition's frame. Returns
+   * null when the script already has the rendition's shape, or when it can't
+   * be parsed (input probing reports that).
+   */
+  async relayout(sourcePath: string, rendition: Rendition, outputPath: string): Promise<AssDocument | null> {
+    let document: AssDocument;
+    try {
+      document = parseAss(await fs.readFile(sourcePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+    if (!needsRelayout(document, rendition)) {
+      return null;
+    }
+
+    const relaid = relayoutAss(document, rendition);
+    await fs.writeFile(outputPath, serializeAss(relaid), 'utf-8');
+
+    const playRes = getPlayRes(document);
+    this.logger.info('Subtitles re-laid out for rendition', {
+      rendition: rendition.name,
+      from: `${playRes.width}x${playRes.height}`,
+      to: `${rendition.width}x${rendition.height}`,
+      outputPath
+    });
+    return relaid;
+  }
+
+  /**
+   * Write a copy of the ASS file with its timeline cut to the song segment
+   * from songStart to songEnd. `parsed` is used instead of reading the file
+   * when given (e.g. a re-laid-out copy). Returns null when the script can't
+   * be parsed (input probing reports that).
+   */
+  async trimToSegment(
+    sourcePath: string,
+    songStart: number,
+    songEnd: number | undefined,
+    outputPath: string,
+    parsed?: AssDocument
+  ): Promise<AssDocument | null> {
+    let document: AssDocument;
+    try {
+      document = parsed || parseAss(await fs.readFile(sourcePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    const trimmed = trimAssTimeline(document, songStart, songEnd);
+    await fs.writeFile(outputPath, serializeAss(trimmed), 'utf-8');
+
+    this.logger.info('Subtitles cut to song segment', {
+      songStart,
+      songEnd,
+      eventCount: trimmed.events.length,
+      droppedEvents: document.events.length - trimmed.events.length,
+      outputPath
+    });
+    return trimmed;
+  }
+
+  /**
+   * Write a copy of the ASS file with every line moved `seconds` later, for
+   * songs that start after an intro card. Returns null when the script can't
+   * be parsed.
+   */
+  async delay(
+    sourcePath: string,
+    seconds: number,
+    outputPath: string,
+    parsed?: AssDocument
+  ): Promise<AssDocument | null> {
+    let document: AssDocument;
+    try {
+      document = parsed || parseAss(await fs.readFile(sourcePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    const delayed = delayAssTimeline(document, seconds);
+    await fs.writeFile(outputPath, serializeAss(delayed), 'utf-8');
+
+    this.logger.info('Subtitles moved after the intro card', { seconds, outputPath });
+    return delayed;
+  }
+
+  /**
+   * Write the rendition's subtitles as caption files next to outputBase
+   * (outputBase.vtt, outputBase.srt). Returns the path written per format.
+   */
+  async writeCaptions(
+    assPath: string,
+    formats: CaptionFormat[],
+    outputBase: string
+  ): Promise<Partial<Record<CaptionFormat, string>>> {
+    const cues = assToCues(parseAss(await fs.readFile(assPath, 'utf-8')));
+    const files: Partial<Record<CaptionFormat, string>> = {};
+
+    for (const format of formats) {
+      const outputPath = `${outputBase}.${format}`;
+      await fs.writeFile(outputPath, formatCaptions(cues, format), 'utf-8');
+      files[format] = outputPath;
+    }
+
+    this.logger.info('Captions written', { assPath, cueCount: cues.length, files });
+    return files;
+  }
+
+  buildDocument(
+    lines: TimedLyricLine[],
+    preset: SubtitlePreset,
+    karaoke: boolean,
+    size: { width: number; height: number },
+    title?: string
+  ): AssDocument {
+    const style = this.buildStyle(preset, size);
+
+    return {
+      scriptInfo: {
+        Title: title || 'Lyrics',
+        ScriptType: 'v4.00+',
+        WrapStyle: '0',
+        ScaledBorderAndShadow: 'yes',
+        PlayResX: String(size.width),
+        PlayResY: String(size.height),
+        'YCbCr Matrix': 'TV.709'
+      },
+      styles: [style],
+      events: lines.map(line => ({
+        type: 'Dialogue' as const,
+        layer: 0,
+        start: line.start,
+        end: line.end,
+        style: style.name,
+        name: '',
+        marginL: 0,
+        marginR: 0,
+        marginV: 0,
+        effect: '',
+        text: karaoke ? this.buildKaraokeText(line) : escapeText(line.text),
+        line: 0
+      })),
+      otherSections: []
+    };
+  }
+
+  private buildStyle(preset: SubtitlePreset, size: { width: number; height: number }): AssStyle {
+    const config = PRESETS[preset];
+    const fontSize = Math.round(Math.min(size.width, size.height) * config.fontSizeRatio);
+
+    return {
+      name: preset,
+      fontName: config.fontName,
+      fontSize,
+      primaryColour: config.primaryColour,
+      secondaryColour: config.secondaryColour,
+      outlineColour: config.outlineColour,
+      backColour: config.backColour,
+      bold: config.bold,
+      italic: config.italic,
+      underline: false,
+      strikeOut: false,
+      scaleX: 100,
+      scaleY: 100,
+      spacing: 0,
+      angle: 0,
+      borderStyle: 1,
+      outline: Math.max(1, Math.round(fontSize * config.outlineRatio)),
+      shadow: Math.round(fontSize * config.shadowRatio),
+      alignment: 2,
+      marginL: Math.round(size.width * MARGIN_H_RATIO),
+      marginR: Math.round(size.width * MARGIN_H_RATIO),
+      marginV: Math.round(size.height * MARGIN_V_RATIO),
+      encoding: 1,
+      line: 0
+    };
+  }
+
+  /**
+   * Line text with a \k tag per word. Each word stays unsung until its start
+   * time; a leading \k covers any pause between the line and its first word.
+   */
+  private buildKaraokeText(line: TimedLyricLine): string {
+    const words = line.words || estimateWordTimings(line);
+    // Work in centiseconds from the line start so rounding never drifts
+    const toTicks = (seconds: number) => Math.max(0, Math.round((seconds - line.start) * 100));
+    let elapsed = 0;
+    let text = '';
+
+    const leadIn = toTicks(words[0]?.start ?? line.start);
+    if (leadIn > 0) {
+      text += `{\\k${leadIn}}`;
+      elapsed = leadIn;
+    }
+
+    words.forEach((word, i) => {
+      const boundary = toTicks(words[i + 1]?.start ?? word.end);
+      const duration = Math.max(0, boundary - elapsed);
+      text += `{\\k${duration}}${escapeText(word.text)}`;
+      elapsed += duration;
+    });
+
+    return text;
+  }
+}
+
+// Spread a line's duration over its words by length, for sources with line timing only
+function estimateWordTimings(line: TimedLyricLine): LyricsWordTiming[] {
+  const words = line.text.match(/\S+\s*/g) || [line.text];
+  const weights = words.map(word => Math.max(1, word.trim().length));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const duration = line.end - line.start;
+  let time = line.start;
+
+  return words.map((word, i) => {
+    const start = time;
+    time += (duration * weights[i]!) / totalWeight;
+    return { text: word, start, end: time };
+  });
+}
+
+// Keep lyric text from being read as override blocks or escapes
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '/')
+    .replace(/\{/g, '(')
+    .replace(/\}/g, ')')
+    .replace(/\r?\n/g, '\\N');
+}
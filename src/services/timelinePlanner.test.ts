@@ -0,0 +1,121 @@
+import { TimelinePlanner } from './timelinePlanner';
+import { ProcessVideoRequest } from '../types';
+
+const planner = new TimelinePlanner('test');
+
+// Two 8s clips with the default 0.5s fade cover 15.5s
+function request(overrides: Partial<ProcessVideoRequest> = {}): ProcessVideoRequest {
+  return {
+    videoClips: [
+      { url: 'https://example.com/a.mp4', duration: 8 },
+      { url: 'https://example.com/b.mp4', duration: 8 }
+    ],
+    assFile: { url: 'https://example.com/lyrics.ass' },
+    songUrl: 'https://example.com/song.mp3',
+    songId: 'song-1',
+    outputAspectRatio: '9:16',
+    ...overrides
+  };
+}
+
+describe('TimelinePlanner.plan', () => {
+  it('lays the clips out once without a fillStrategy', () => {
+    const plan = planner.plan(request(), 20);
+
+    expect(plan.timeline.map(segment => segment.clipIndex)).toEqual([0, 1]);
+    expect(plan.transitionOffsets).toEqual([7.5]);
+    expect(plan.videoDuration).toBe(15.5);
+    expect(plan.freezeDuration).toBe(0);
+  });
+
+  it('loops the clip sequence until the song is covered', () => {
+    const plan = planner.plan(request({ fillStrategy: 'loop' }), 30);
+
+    expect(plan.timeline.map(segment => segment.clipIndex)).toEqual([0, 1, 0, 1]);
+    expect(plan.transitionOffsets).toEqual([7.5, 15, 22.5]);
+    expect(plan.videoDuration).toBe(30.5);
+    expect(plan.freezeDuration).toBe(0);
+  });
+
+  it('freezes the last frame for the rest of the song', () => {
+    const plan = planner.plan(request({ fillStrategy: 'freeze' }), 20);
+
+    expect(plan.timeline).toHaveLength(2);
+    expect(plan.freezeDuration).toBeCloseTo(4.5);
+  });
+
+  it('slows every clip down by the same factor to fill the song', () => {
+    const plan = planner.plan(request({ fillStrategy: 'stretch' }), 31);
+    const factor = 31.5 / 16;
+
+    plan.timeline.forEach(segment => {
+      expect(segment.duration).toBeCloseTo(8 * factor);
+      expect(segment.speed).toBeCloseTo(1 / factor);
+    });
+    expect(plan.videoDuration).toBeCloseTo(31);
+    expect(plan.freezeDuration).toBe(0);
+  });
+
+  it('rejects clips shorter than the song with the fail strategy', () => {
+    expect(() => planner.plan(request({ fillStrategy: 'fail' }), 20)).toThrow('Video clips are shorter than the song');
+    expect(() => planner.plan(request({ fillStrategy: 'fail' }), 15.5)).not.toThrow();
+  });
+
+  it('freezes over the time beat snapping takes off, even without a fillStrategy', () => {
+    const plan = planner.plan(request(), 20, [7]);
+
+    expect(plan.transitionOffsets).toEqual([7]);
+    expect(plan.videoDuration).toBe(15);
+    expect(plan.freezeDuration).toBeCloseTo(0.5);
+  });
+
+  it('rejects transitions longer than a clip can hold', () => {
+    const videoClips = [
+      { url: 'https://example.com/a.mp4', duration: 2, transition: { type: 'fade' as const, duration: 1.5 } },
+      { url: 'https://example.com/b.mp4', duration: 2, transition: { type: 'fade' as const, duration: 1.5 } },
+      { url: 'https://example.com/c.mp4', duration: 2 }
+    ];
+
+    expect(() => planner.plan(request({ videoClips }), 5)).toThrow('Transition durations exceed clip duration');
+  });
+
+  it('extends a clip to a later snap point only when its source has footage to spare', () => {
+    expect(planner.plan(request(), 20, [9]).transitionOffsets).toEqual([7.5]);
+
+    const plan = planner.plan(request(), 20, [9], [10, 10]);
+
+    expect(plan.transitionOffsets).toEqual([9]);
+    expect(plan.timeline[0]!.duration).toBe(9.5);
+    expect(plan.videoDuration).toBe(17);
+  });
+
+  describe('with branding cards', () => {
+    const intro = { url: 'https://example.com/intro.mp4', duration: 4 };
+    const outro = { url: 'https://example.com/outro.mp4', duration: 4 };
+
+    it('starts the song as the intro fades into the first clip and appends the outro', () => {
+      const plan = planner.plan(request({ branding: { intro, outro }, fillStrategy: 'freeze' }), 12);
+
+      expect(plan.timeline.map(segment => segment.clipIndex)).toEqual([2, 0, 1, 3]);
+      expect(plan.songOffset).toBe(3.5);
+      // Song beats are moved into timeline time
+      expect(planner.plan(request({ branding: { intro } }), 12, [7]).transitionOffsets).toEqual([3.5, 10.5]);
+      expect(plan.outputDuration).toBeCloseTo(plan.videoDuration);
+    });
+
+    it('cuts the clips short at the end of the song to make room for the outro', () => {
+      const plan = planner.plan(request({ branding: { outro } }), 10);
+
+      expect(plan.timeline.map(segment => segment.clipIndex)).toEqual([0, 1, 2]);
+      expect(plan.timeline[1]!.duration).toBeCloseTo(2.5);
+      expect(plan.songOffset).toBe(0);
+      expect(plan.outputDuration).toBeCloseTo(13.5);
+    });
+
+    it('drops clips that would be too short to hold their transitions', () => {
+      const plan = planner.plan(request({ branding: { outro } }), 8);
+
+      expect(plan.timeline.map(segment => segment.clipIndex)).toEqual([0, 2]);
+    });
+  });
+});
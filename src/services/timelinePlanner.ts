@@ -0,0 +1,340 @@
+import { ProcessLogger } from '../utils/logger';
+import { FFmpegService } from './ffmpegService';
+import { describeTimelineClip, getCardIndexes, getTimelineClips } from '../utils/timelineClips';
+import {
+  ProcessVideoRequest,
+  ProcessingError,
+  ProcessingErrorCode,
+  ProcessingStage,
+  ResolvedTransition,
+  TimelineSegment,
+  VideoClip
+} from '../types';
+
+// Gaps shorter than this (seconds) between video and song are ignored
+const DURATION_TOLERANCE = 0.05;
+
+// Upper bound on segments when looping, to guard against runaway plans
+const MAX_TIMELINE_SEGMENTS = 500;
+
+export interface TimelinePlan {
+  timeline: TimelineSegment[];
+  transitions: ResolvedTransition[];
+  transitionOffsets: number[];
+  videoDuration: number;
+  freezeDuration: number;
+  songOffset: number;
+  outputDuration: number;
+}
+
+type TimelineLayout = Omit<TimelinePlan, 'freezeDuration' | 'songOffset' | 'outputDuration'>;
+
+export class TimelinePlanner {
+  private logger: ProcessLogger;
+  private ffmpegService: FFmpegService;
+
+  constructor(processId: string) {
+    this.logger = new ProcessLogger(processId);
+    this.ffmpegService = new FFmpegService(processId);
+  }
+
+  /**
+   * Lay the requested clips out against the song, applying the request's
+   * fillStrategy when the clips don't cover the whole song:
+   * - loop: repeat the clip sequence until the song is covered
+   * - freeze: hold the last frame for the remaining time
+   * - stretch: slow every clip down proportionally
+   * - fail: reject the request before any encoding starts
+   * Without a fillStrategy the video simply ends early, as before.
+   * Branding cards sit outside the song: it starts as the intro fades into
+   * the first video clip, and the outro has faded in when it ends. Only the
+   * video clips between them are looped, stretched, snapped or cut short.
+   * `clipSourceDurations` (probed, per timeline clip) limits how far beat
+   * snapping may extend a clip into its unused footage.
+   */
+  plan(
+    request: ProcessVideoRequest,
+    songDuration: number,
+    snapPoints: number[] = [],
+    clipSourceDurations: number[] = []
+  ): TimelinePlan {
+    const strategy = request.fillStrategy;
+    const cards = getCardIndexes(request);
+    let timeline: TimelineSegment[] = [
+      ...(cards.intro !== undefined ? [cards.intro] : []),
+      ...request.videoClips.map((_, clipIndex) => clipIndex)
+    ].map(clipIndex => this.createSegment(request, clipIndex));
+
+    const songOffset = cards.intro !== undefined
+      ? timeline[0]!.duration - this.layout(request, timeline, [], []).transitions[0]!.duration
+      : 0;
+    const songEnd = songOffset + songDuration;
+    // Beats are found in song time
+    const timelineSnapPoints = snapPoints.map(point => point + songOffset);
+
+    // Check coverage against the caller's declared durations, before beat snapping
+    const declaredDuration = this.layout(request, timeline, [], []).videoDuration - songOffset;
+    const shortfall = songDuration - declaredDuration;
+
+    if (shortfall > DURATION_TOLERANCE) {
+      this.logger.info('Video clips are shorter than the song', {
+        declaredDuration,
+        songDuration,
+        fillStrategy: strategy || 'none'
+      });
+
+      if (strategy === 'fail') {
+        throw new ProcessingError(
+          ProcessingErrorCode.VALIDATION_ERROR,
+          ProcessingStage.METADATA_EXTRACTION,
+          'Video clips are shorter than the song',
+          `Clips cover ${declaredDuration.toFixed(2)}s but the song lasts ${songDuration.toFixed(2)}s`
+        );
+      }
+
+      if (strategy === 'stretch') {
+        timeline = this.stretch(request, timeline, songEnd);
+      }
+    }
+
+    let layout = this.layout(request, timeline, timelineSnapPoints, clipSourceDurations);
+
+    if (strategy === 'loop') {
+      let nextClip = 0;
+      while (songEnd - layout.videoDuration > DURATION_TOLERANCE) {
+        if (timeline.length >= MAX_TIMELINE_SEGMENTS) {
+          throw new ProcessingError(
+            ProcessingErrorCode.VALIDATION_ERROR,
+            ProcessingStage.METADATA_EXTRACTION,
+            'Too many clip repetitions needed to cover the song',
+            `Looping would need more than ${MAX_TIMELINE_SEGMENTS} clip segments`
+          );
+        }
+
+        timeline.push(this.createSegment(request, nextClip % request.videoClips.length));
+        nextClip++;
+        layout = this.layout(request, timeline, timelineSnapPoints, clipSourceDurations);
+      }
+    }
+
+    // Without an outro the output is simply cut at the end of the song. With one,
+    // clips running past the song are cut short (or dropped) to make room for it
+    if (cards.outro !== undefined) {
+      const outroClip = getTimelineClips(request)[cards.outro]!;
+      while (layout.videoDuration - songEnd > DURATION_TOLERANCE) {
+        const last = timeline[timeline.length - 1]!;
+        const duration = last.duration - (layout.videoDuration - songEnd);
+        const incoming = layout.transitions[timeline.length - 2]?.duration ?? 0;
+        const outgoing = this.resolveTransition(request, last, outroClip).duration;
+        const videoSegmentCount = timeline.length - (cards.intro !== undefined ? 1 : 0);
+
+        if (duration < incoming + outgoing && videoSegmentCount > 1) {
+          timeline.pop();
+        } else {
+          timeline[timeline.length - 1] = { ...last, duration };
+        }
+        layout = this.layout(request, timeline, timelineSnapPoints, clipSourceDurations);
+      }
+    }
+
+    // Any remaining gap is covered by holding the last frame. Without a fillStrategy
+    // the video may still end early, but never earlier than beat snapping made it;
+    // an outro always starts at the end of the song
+    const remaining = songEnd - layout.videoDuration;
+    const snappingGap = this.layout(request, timeline, [], []).videoDuration - layout.videoDuration;
+    const gap = strategy || cards.outro !== undefined ? remaining : Math.min(remaining, snappingGap);
+    const freezeDuration = gap > DURATION_TOLERANCE ? gap : 0;
+
+    if (cards.outro === undefined) {
+      return {
+        ...layout,
+        freezeDuration,
+        songOffset,
+        outputDuration: songEnd
+      };
+    }
+
+    return {
+      ...this.appendOutro(request, layout, freezeDuration, cards.outro),
+      freezeDuration,
+      songOffset
+    };
+  }
+
+  /**
+   * Seconds of source footage a clip plays, starting at its in-point.
+   * An explicit endTime takes precedence over the declared duration.
+   */
+  getSourceDuration(clip: VideoClip): number {
+    if (clip.endTime !== undefined) {
+      return clip.endTime - (clip.startTime || 0);
+    }
+    return clip.duration * (clip.speed || 1);
+  }
+
+  private createSegment(request: ProcessVideoRequest, clipIndex: number): TimelineSegment {
+    const clip = getTimelineClips(request)[clipIndex]!;
+    const speed = clip.speed || 1;
+
+    return {
+      clipIndex,
+      startTime: clip.startTime || 0,
+      duration: this.getSourceDuration(clip) / speed,
+      speed
+    };
+  }
+
+  /**
+   * Place the transitions for a timeline. Segments whose transition was snapped
+   * later than their declared end come back lengthened to reach it.
+   */
+  private layout(
+    request: ProcessVideoRequest,
+    timeline: TimelineSegment[],
+    snapPoints: number[],
+    clipSourceDurations: number[]
+  ): TimelineLayout {
+    const transitionDuration = request.transitionDuration || 0.5;
+    const segmentDurations = timeline.map(segment => segment.duration);
+    const clips = getTimelineClips(request);
+    const transitions = this.ffmpegService.resolveTransitions(
+      timeline.map(segment => clips[segment.clipIndex]!),
+      transitionDuration
+    );
+    const transitionDurations = transitions.map(transition => transition.duration);
+
+    this.validateTransitions(request, timeline, transitionDurations);
+
+    // Footage left in each source from the segment's in-point, at its playback
+    // speed. Cards are never extended, so the song always starts on time
+    const maxDurations = timeline.map(segment => {
+      const sourceDuration = clipSourceDurations[segment.clipIndex];
+      return sourceDuration === undefined || Number.isNaN(sourceDuration) || this.isCard(request, segment)
+        ? segment.duration
+        : (sourceDuration - segment.startTime) / segment.speed;
+    });
+
+    const transitionOffsets = this.ffmpegService.calculateTransitionOffsets(
+      segmentDurations,
+      transitionDurations,
+      snapPoints,
+      maxDurations
+    );
+    const lastOffset = transitionOffsets.length > 0 ? transitionOffsets[transitionOffsets.length - 1]! : 0;
+
+    return {
+      timeline: timeline.map((segment, i) => {
+        if (i >= transitionOffsets.length) {
+          return segment;
+        }
+        const start = i > 0 ? transitionOffsets[i - 1]! : 0;
+        const end = transitionOffsets[i]! + transitionDurations[i]!;
+        return end - start > segment.duration ? { ...segment, duration: end - start } : segment;
+      }),
+      transitions,
+      transitionOffsets,
+      videoDuration: lastOffset + segmentDurations[segmentDurations.length - 1]!
+    };
+  }
+
+  // Slow every video clip down by the same factor so the sequence reaches `end`
+  private stretch(
+    request: ProcessVideoRequest,
+    timeline: TimelineSegment[],
+    end: number
+  ): TimelineSegment[] {
+    const { transitions } = this.layout(request, timeline, [], []);
+    const isCard = (segment: TimelineSegment) => this.isCard(request, segment);
+    const totalTransition = transitions.reduce((sum, transition) => sum + transition.duration, 0);
+    const totalDuration = timeline.reduce((sum, segment) => sum + segment.duration, 0);
+    const cardDuration = timeline.filter(isCard).reduce((sum, segment) => sum + segment.duration, 0);
+    const factor = (end + totalTransition - cardDuration) / (totalDuration - cardDuration);
+
+    if (!Number.isFinite(factor) || factor <= 0) {
+      throw new ProcessingError(
+        ProcessingErrorCode.VALIDATION_ERROR,
+        ProcessingStage.METADATA_EXTRACTION,
+        'Video clips cannot be stretched to fill the song',
+        `Stretching would need a factor of ${factor}, which is not a valid playback speed`
+      );
+    }
+
+    this.logger.info('Stretching clips to fill song', { factor });
+
+    return timeline.map(segment => isCard(segment) ? segment : {
+      ...segment,
+      duration: segment.duration * factor,
+      speed: segment.speed / factor
+    });
+  }
+
+  /**
+   * Add the outro after the video clips (held for `freezeDuration` first), so
+   * that it has faded in when the song ends.
+   */
+  private appendOutro(
+    request: ProcessVideoRequest,
+    layout: TimelineLayout,
+    freezeDuration: number,
+    outroIndex: number
+  ): TimelineLayout & { outputDuration: number } {
+    const outro = this.createSegment(request, outroIndex);
+    const last = layout.timeline[layout.timeline.length - 1]!;
+    const transition = this.resolveTransition(request, last, getTimelineClips(request)[outroIndex]!);
+    const transitions = [...layout.transitions, transition];
+
+    // The hold counts towards the last clip's share of the transitions
+    this.validateTransitions(
+      request,
+      [...layout.timeline.slice(0, -1), { ...last, duration: last.duration + freezeDuration }, outro],
+      transitions.map(({ duration }) => duration)
+    );
+
+    const outroOffset = layout.videoDuration + freezeDuration - transition.duration;
+    const outputDuration = outroOffset + outro.duration;
+
+    return {
+      timeline: [...layout.timeline, outro],
+      transitions,
+      transitionOffsets: [...layout.transitionOffsets, outroOffset],
+      videoDuration: outputDuration,
+      outputDuration
+    };
+  }
+
+  // Transition from a segment into the given clip
+  private resolveTransition(request: ProcessVideoRequest, from: TimelineSegment, to: VideoClip): ResolvedTransition {
+    const clips = getTimelineClips(request);
+    return this.ffmpegService.resolveTransitions([clips[from.clipIndex]!, to], request.transitionDuration || 0.5)[0]!;
+  }
+
+  private isCard(request: ProcessVideoRequest, segment: TimelineSegment): boolean {
+    return segment.clipIndex >= request.videoClips.length;
+  }
+
+  /**
+   * Each clip must be long enough to cover the transitions on both of its
+   * boundaries, otherwise consecutive xfades would overlap.
+   */
+  private validateTransitions(
+    request: ProcessVideoRequest,
+    timeline: TimelineSegment[],
+    transitionDurations: number[]
+  ): void {
+    for (let i = 0; i < timeline.length; i++) {
+      const segment = timeline[i]!;
+      const incoming = i > 0 ? transitionDurations[i - 1]! : 0;
+      const outgoing = i < transitionDurations.length ? transitionDurations[i]! : 0;
+
+      if (incoming + outgoing > segment.duration) {
+        const clip = describeTimelineClip(request, segment.clipIndex);
+        throw new ProcessingError(
+          ProcessingErrorCode.VALIDATION_ERROR,
+          ProcessingStage.METADATA_EXTRACTION,
+          'Transition durations exceed clip duration',
+          `${clip[0]!.toUpperCase()}${clip.slice(1)} lasts ${segment.duration}s but its transitions need ${incoming + outgoing}s`
+        );
+      }
+    }
+  }
+}
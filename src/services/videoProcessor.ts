@@ -4,32 +4,70 @@ import { ProcessLogger } from '../utils/logger';
 import { FileManager } from './fileManager';
 import { FFmpegService } from './ffmpegService';
 import { BlobService } from './blobService';
-import { MuxService } from './muxService';
+import { BeatDetector } from './beatDetector';
+import { TimelinePlanner } from './timelinePlanner';
+import { MediaProbe, ProbeResult, SubtitleInput } from './mediaProbe';
+import { SubtitleGenerator } from './subtitleGenerator';
+import { createPublishers, Publisher } from './publishers';
 import { validateProcessVideoRequest } from '../validation/schemas';
+import { publishProcessEvent } from '../utils/processEvents';
+import { resolveOutputDimensions } from '../utils/outputDimensions';
+import { getTimelineClips } from '../utils/timelineClips';
 import {
+  CaptionFormat,
+  CaptionSidecar,
+  OutputSpec,
   ProcessVideoRequest,
   ProcessVideoResponse,
   ProcessingContext,
   ProcessingError,
   ProcessingErrorCode,
-  ProcessingStage
+  ProcessingStage,
+  PublishResult,
+  Rendition,
+  RenditionCaptions,
+  RenditionResult
 } from '../types';
 
+// Overall job progress (percent) reported when each stage begins
+const STAGE_PROGRESS: Record<ProcessingStage, number> = {
+  [ProcessingStage.VALIDATION]: 0,
+  [ProcessingStage.ASSET_DOWNLOAD]: 5,
+  [ProcessingStage.SUBTITLE_GENERATION]: 18,
+  [ProcessingStage.INPUT_PROBING]: 20,
+  [ProcessingStage.METADATA_EXTRACTION]: 25,
+  [ProcessingStage.FFMPEG_CONSTRUCTION]: 30,
+  [ProcessingStage.VIDEO_PROCESSING]: 30,
+  [ProcessingStage.OUTPUT_UPLOAD]: 85,
+  [ProcessingStage.CLEANUP]: 95
+};
+
+const CAPTION_CONTENT_TYPES: Record<CaptionFormat, string> = {
+  vtt: 'text/vtt',
+  srt: 'application/x-subrip'
+};
+
 export class VideoProcessor {
   private logger: ProcessLogger;
   private processId: string;
   private fileManager: FileManager;
   private ffmpegService: FFmpegService;
   private blobService: BlobService;
-  private muxService: MuxService;
+  private beatDetector: BeatDetector;
+  private timelinePlanner: TimelinePlanner;
+  private mediaProbe: MediaProbe;
+  private subtitleGenerator: SubtitleGenerator;
 
-  constructor() {
-    this.processId = uuidv4();
+  constructor(processId: string = uuidv4()) {
+    this.processId = processId;
     this.logger = new ProcessLogger(this.processId);
     this.fileManager = new FileManager(this.processId);
     this.ffmpegService = new FFmpegService(this.processId);
     this.blobService = new BlobService(this.processId);
-    this.muxService = new MuxService(this.processId);
+    this.beatDetector = new BeatDetector(this.processId);
+    this.timelinePlanner = new TimelinePlanner(this.processId);
+    this.mediaProbe = new MediaProbe(this.processId);
+    this.subtitleGenerator = new SubtitleGenerator(this.processId);
   }
 
   async processVideo(requestData: any): Promise<ProcessVideoResponse> {
@@ -43,69 +81,130 @@ export class VideoProcessor {
 
     try {
       // Step 1: Validate request
+      this.reportStage(ProcessingStage.VALIDATION);
       const request = await this.validateRequest(requestData);
 
-      // Step 2: Verify FFmpeg installation and fonts
+      // Step 2: Verify FFmpeg installation, fonts and publish targets
       await this.ffmpegService.verifyFFmpegInstallation();
       await this.ffmpegService.verifyFontsDirectory();
+      const publishers = createPublishers(request.publishTo || ['mux'], this.processId);
 
       // Step 3: Create processing context
-      context = await this.createProcessingContext(request);
+      const renditions = this.resolveRenditions(request);
+      context = await this.createProcessingContext(request, renditions);
 
-      // Step 4: Download assets
+      // Step 4: Download assets (shared by every rendition)
+      this.reportStage(ProcessingStage.ASSET_DOWNLOAD);
+      const assFileUrls = [...new Set(renditions.flatMap(rendition => rendition.assFileUrl || []))];
       const localFiles = await this.fileManager.downloadAssets(
-        request.videoClips.map(clip => clip.url),
-        request.assFile.url,
+        getTimelineClips(request).map(clip => clip.url),
+        assFileUrls,
         request.songUrl,
-        context.tempDir
+        context.tempDir,
+        {
+          ...(request.lyrics?.url && { lyricsUrl: request.lyrics.url }),
+          ...(request.voiceOver && { voiceOverUrl: request.voiceOver.url }),
+          ...(request.branding?.logo && { logoUrl: request.branding.logo.url })
+        }
       );
+      let subtitles: SubtitleInput[] = assFileUrls.map((url, i) => ({
+        url,
+        path: localFiles.assFiles[i]!,
+        renditions: renditions.filter(rendition => rendition.assFileUrl === url)
+      }));
+
+      // Step 5: Prepare each rendition's subtitles: re-lay out ASS files authored for
+      // another frame shape, generate them from the lyrics where there is no ASS file,
+      // and cut them to the song segment when only part of the song is rendered
+      this.reportStage(ProcessingStage.SUBTITLE_GENERATION);
+      if (request.subtitleRelayout !== false) {
+        subtitles = await this.relayoutSubtitles(context, subtitles);
+      }
+      const lyricsRenditions = renditions.filter(rendition => !rendition.assFileUrl);
+      if (request.lyrics && lyricsRenditions.length > 0) {
+        subtitles.push(...await this.generateSubtitles(context, lyricsRenditions, localFiles.lyricsFile));
+      }
+      if (request.songStart || request.songEnd !== undefined) {
+        subtitles = await this.trimSubtitles(context, subtitles);
+      }
+      let assFileByRendition = this.getAssFileByRendition(subtitles);
 
       // Update context with local file paths
       context.localFiles = {
-        ...localFiles,
+        videoClips: localFiles.videoClips,
+        assFile: assFileByRendition.get(renditions[0]!.name)!,
+        songFile: localFiles.songFile,
         outputFile: path.join(context.tempDir, 'final_video.mp4'),
-        thumbnailFile: path.join(context.tempDir, 'thumbnail.jpg')
+        thumbnailFile: path.join(context.tempDir, 'thumbnail.jpg'),
+        ...(localFiles.voiceOverFile && { voiceOverFile: localFiles.voiceOverFile }),
+        ...(localFiles.logoFile && { logoFile: localFiles.logoFile })
       };
 
-      // Step 5: Extract metadata
-      await this.extractMetadata(context);
-
-      // Step 6: Process video with FFmpeg
-      await this.ffmpegService.processVideo(context);
+      // Step 6: Probe inputs, lint subtitles and reject unusable media before encoding
+      this.reportStage(ProcessingStage.INPUT_PROBING);
+      const probeResult = await this.mediaProbe.probeAssets(context, subtitles);
+
+      // Step 7: Extract metadata, then move the subtitles after the intro card
+      this.reportStage(ProcessingStage.METADATA_EXTRACTION);
+      await this.extractMetadata(context, probeResult);
+      if (context.metadata.songOffset > 0) {
+        subtitles = await this.delaySubtitles(context, subtitles);
+        assFileByRendition = this.getAssFileByRendition(subtitles);
+        context.localFiles.assFile = assFileByRendition.get(renditions[0]!.name)!;
+      }
 
-      // Step 7: Generate thumbnail
-      await this.ffmpegService.generateThumbnail(
-        context.localFiles.outputFile,
-        context.localFiles.thumbnailFile
-      );
+      // Step 8: Render each rendition with FFmpeg and generate its thumbnail (and captions)
+      this.reportStage(ProcessingStage.VIDEO_PROCESSING);
+      const renditionContexts: ProcessingContext[] = [];
+      for (const rendition of renditions) {
+        const renditionContext = this.createRenditionContext(
+          context,
+          rendition,
+          assFileByRendition.get(rendition.name)!
+        );
+        if (request.captions) {
+          renditionContext.localFiles.captionFiles = await this.writeCaptions(renditionContext);
+        }
+        await this.ffmpegService.processVideo(renditionContext);
+        await this.ffmpegService.generateThumbnail(
+          renditionContext.localFiles.outputFile,
+          renditionContext.localFiles.thumbnailFile,
+          rendition
+        );
+        renditionContexts.push(renditionContext);
+      }
 
-      // Step 8: Upload video and thumbnail to Vercel Blob & video to Mux
-      const [outputUrl, thumbnailUrl, muxResult] = await Promise.all([
-        this.uploadOutput(context),
-        this.uploadThumbnail(context),
-        this.uploadToMux(context)
-      ]);
+      // Step 9: Upload each rendition's video and thumbnail to storage & publish the video
+      this.reportStage(ProcessingStage.OUTPUT_UPLOAD);
+      const renditionResults: RenditionResult[] = [];
+      for (const renditionContext of renditionContexts) {
+        renditionResults.push(await this.uploadRendition(renditionContext, publishers));
+      }
 
-      // Step 9: Cleanup and delete source assets
+      // Step 10: Cleanup and delete source assets
+      this.reportStage(ProcessingStage.CLEANUP);
       await this.cleanup(context);
 
-      // Step 10: Generate response
+      // Step 11: Generate response
       const processingTimeMs = Date.now() - startTime;
       const response: ProcessVideoResponse = {
         status: 'completed',
-        muxAssetId: muxResult.assetId,
-        muxPlaybackId: muxResult.playbackId,
-        duration: context.metadata.songDuration,
+        renditions: renditionResults,
+        duration: context.metadata.outputDuration,
         message: 'Video processed successfully.',
-        processingTimeMs
+        processingTimeMs,
+        ...(probeResult.warnings.length > 0 && { warnings: probeResult.warnings })
       };
 
       this.logger.info('Video processing completed successfully', {
         processId: this.processId,
         processingTimeMs,
-        muxAssetId: muxResult.assetId,
-        muxPlaybackId: muxResult.playbackId,
-        duration: context.metadata.songDuration
+        renditions: renditionResults.map(result => ({
+          name: result.name,
+          outputUrl: result.outputUrl,
+          published: result.published
+        })),
+        duration: context.metadata.outputDuration
       });
 
       return response;
@@ -130,19 +229,27 @@ export class VideoProcessor {
       }
 
       // Re-throw ProcessingError as-is, wrap other errors
-      if (error instanceof ProcessingError) {
-        throw error;
-      } else {
-        throw new ProcessingError(
+      const processingError = error instanceof ProcessingError
+        ? error
+        : new ProcessingError(
           ProcessingErrorCode.FFMPEG_PROCESSING_ERROR,
           ProcessingStage.VIDEO_PROCESSING,
           'Unexpected error during video processing',
           (error as Error).message
         );
-      }
+
+      throw processingError;
     }
   }
 
+  private reportStage(stage: ProcessingStage): void {
+    publishProcessEvent(this.processId, {
+      type: 'stage',
+      stage,
+      progress: STAGE_PROGRESS[stage]
+    });
+  }
+
   private async validateRequest(requestData: any): Promise<ProcessVideoRequest> {
     this.logger.logStage('Request Validation', 'start');
     
@@ -150,7 +257,8 @@ export class VideoProcessor {
       const validatedRequest = validateProcessVideoRequest(requestData);
       this.logger.logStage('Request Validation', 'complete', {
         clipCount: validatedRequest.videoClips.length,
-        outputAspectRatio: validatedRequest.outputAspectRatio
+        outputAspectRatio: validatedRequest.outputAspectRatio,
+        outputCount: validatedRequest.outputs?.length || 1
       });
       return validatedRequest;
     } catch (error) {
@@ -164,12 +272,177 @@ export class VideoProcessor {
     }
   }
 
-  private async createProcessingContext(request: ProcessVideoRequest): Promise<ProcessingContext> {
+  /**
+   * Resolve the requested outputs into renditions with concrete dimensions.
+   * Without `outputs`, the top-level aspect ratio/resolution/outputSize
+   * describe a single rendition.
+   */
+  private resolveRenditions(request: ProcessVideoRequest): Rendition[] {
+    const specs: OutputSpec[] = request.outputs || [{
+      aspectRatio: request.outputAspectRatio!,
+      ...(request.outputSize && { outputSize: request.outputSize })
+    }];
+    const usedNames = new Set<string>();
+
+    return specs.map((spec, index) => {
+      let name = spec.name || spec.aspectRatio.replace(':', 'x');
+      if (usedNames.has(name)) {
+        name = `${name}-${index + 1}`;
+      }
+      usedNames.add(name);
+
+      const { width, height } = resolveOutputDimensions({
+        aspectRatio: spec.aspectRatio,
+        resolution: spec.resolution || request.resolution,
+        outputSize: spec.outputSize
+      });
+      // Renditions without an ASS file get subtitles generated from the lyrics
+      const assFile = spec.assFile || request.assFile;
+
+      return {
+        name,
+        index,
+        aspectRatio: spec.aspectRatio,
+        width,
+        height,
+        compressionLevel: spec.compressionLevel || request.compressionLevel || 'high',
+        ...(assFile && { assFileUrl: assFile.url })
+      };
+    });
+  }
+
+  /**
+   * Write an ASS script from the request's lyrics for each rendition, sized
+   * to that rendition so the preset's fonts and margins scale with it.
+   */
+  private async generateSubtitles(
+    context: ProcessingContext,
+    renditions: Rendition[],
+    lyricsFile?: string
+  ): Promise<SubtitleInput[]> {
+    const lyrics = context.request.lyrics!;
+    const lines = await this.subtitleGenerator.loadLyrics(lyrics, lyricsFile);
+
+    const subtitles: SubtitleInput[] = [];
+    for (const rendition of renditions) {
+      const assPath = path.join(context.tempDir, `lyrics_${rendition.name}.ass`);
+      await this.subtitleGenerator.writeAss(lines, lyrics, rendition, assPath, context.request.songTitle);
+      subtitles.push({
+        ...(lyrics.url && { url: lyrics.url }),
+        path: assPath,
+        renditions: [rendition],
+        asset: renditions.length === 1 ? 'generated subtitles' : `generated subtitles (${rendition.name})`
+      });
+    }
+    return subtitles;
+  }
+
+  /**
+   * Give every rendition whose frame shape differs from its ASS file's PlayRes
+   * a re-laid-out copy. Files left with no renditions are dropped.
+   */
+  private async relayoutSubtitles(
+    context: ProcessingContext,
+    subtitles: SubtitleInput[]
+  ): Promise<SubtitleInput[]> {
+    const prepared: SubtitleInput[] = [];
+
+    for (const subtitle of subtitles) {
+      const unchanged: Rendition[] = [];
+      for (const rendition of subtitle.renditions) {
+        const assPath = path.join(context.tempDir, `relayout_${rendition.name}.ass`);
+        const document = await this.subtitleGenerator.relayout(subtitle.path, rendition, assPath);
+        if (document) {
+          prepared.push({ ...subtitle, path: assPath, renditions: [rendition], document });
+        } else {
+          unchanged.push(rendition);
+        }
+      }
+      if (unchanged.length > 0) {
+        prepared.push({ ...subtitle, renditions: unchanged });
+      }
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Convert the rendition's subtitles into caption files. The soft subtitle
+   * track is muxed in from WebVTT, so that is written for it even when no
+   * WebVTT sidecar was requested.
+   */
+  private async writeCaptions(context: ProcessingContext): Promise<Partial<Record<CaptionFormat, string>>> {
+    const captions = context.request.captions!;
+    const formats = new Set<CaptionFormat>(captions.sidecars || []);
+    if (captions.softTrack) {
+      formats.add('vtt');
+    }
+    const suffix = context.renditionCount > 1 ? `_${context.rendition.name}` : '';
+
+    return await this.subtitleGenerator.writeCaptions(
+      context.localFiles.assFile,
+      [...formats],
+      path.join(context.tempDir, `captions${suffix}`)
+    );
+  }
+
+  /**
+   * Move every subtitle file onto the song segment's timeline, so the first
+   * line sung at songStart appears at the start of the video.
+   */
+  private async trimSubtitles(
+    context: ProcessingContext,
+    subtitles: SubtitleInput[]
+  ): Promise<SubtitleInput[]> {
+    const { songStart = 0, songEnd } = context.request;
+
+    return await Promise.all(subtitles.map(async subtitle => {
+      const assPath = path.join(context.tempDir, `segment_${path.basename(subtitle.path)}`);
+      const document = await this.subtitleGenerator.trimToSegment(
+        subtitle.path,
+        songStart,
+        songEnd,
+        assPath,
+        subtitle.document
+      );
+      return document ? { ...subtitle, path: assPath, document } : subtitle;
+    }));
+  }
+
+  /**
+   * Move every subtitle file onto the output timeline when the song starts
+   * after the intro card. Linting has already happened in song time.
+   */
+  private async delaySubtitles(
+    context: ProcessingContext,
+    subtitles: SubtitleInput[]
+  ): Promise<SubtitleInput[]> {
+    const { songOffset } = context.metadata;
+
+    return await Promise.all(subtitles.map(async subtitle => {
+      const assPath = path.join(context.tempDir, `intro_${path.basename(subtitle.path)}`);
+      const document = await this.subtitleGenerator.delay(subtitle.path, songOffset, assPath, subtitle.document);
+      return document ? { ...subtitle, path: assPath, document } : subtitle;
+    }));
+  }
+
+  private getAssFileByRendition(subtitles: SubtitleInput[]): Map<string, string> {
+    return new Map(
+      subtitles.flatMap(subtitle => subtitle.renditions.map(rendition => [rendition.name, subtitle.path] as const))
+    );
+  }
+
+  private async createProcessingContext(
+    request: ProcessVideoRequest,
+    renditions: Rendition[]
+  ): Promise<ProcessingContext> {
     const tempDir = await this.fileManager.createTempDirectory(this.processId);
     
     return {
       processId: this.processId,
       request,
+      rendition: renditions[0]!,
+      renditionCount: renditions.length,
       tempDir,
       startTime: Date.now(),
       localFiles: {
@@ -181,37 +454,77 @@ export class VideoProcessor {
       },
       metadata: {
         songDuration: 0,
+        songOffset: 0,
+        outputDuration: 0,
+        clipSourceDurations: [],
+        clipHasAudio: [],
         totalClipDuration: 0,
-        transitionOffsets: []
+        timeline: [],
+        transitions: [],
+        transitionOffsets: [],
+        freezeDuration: 0
+      }
+    };
+  }
+
+  /**
+   * Context for rendering one rendition. Output files get a per-rendition
+   * name only when the job renders more than one.
+   */
+  private createRenditionContext(
+    context: ProcessingContext,
+    rendition: Rendition,
+    assFile: string
+  ): ProcessingContext {
+    const suffix = context.renditionCount > 1 ? `_${rendition.name}` : '';
+
+    return {
+      ...context,
+      rendition,
+      localFiles: {
+        ...context.localFiles,
+        assFile,
+        outputFile: path.join(context.tempDir, `final_video${suffix}.mp4`),
+        thumbnailFile: path.join(context.tempDir, `thumbnail${suffix}.jpg`)
       }
     };
   }
 
-  private async extractMetadata(context: ProcessingContext): Promise<void> {
+  private async extractMetadata(context: ProcessingContext, probeResult: ProbeResult): Promise<void> {
     this.logger.logStage('Metadata Extraction', 'start');
     
     try {
-      // Get song duration
-      const songDuration = await this.ffmpegService.getSongDuration(context.localFiles.songFile);
-      
-      // Calculate clip durations and transition offsets
-      const clipDurations = context.request.videoClips.map(clip => clip.duration);
-      const totalClipDuration = clipDurations.reduce((sum, duration) => sum + duration, 0);
-      const transitionDuration = context.request.transitionDuration || 0.5;
-      const transitionOffsets = this.ffmpegService.calculateTransitionOffsets(clipDurations, transitionDuration);
+      const { songDuration, clipSourceDurations, clipHasAudio } = probeResult;
+
+      // Lay clips out against the song (fill strategy, transitions, beat snapping)
+      const snapPoints = await this.getBeatSnapPoints(context, songDuration);
+      const plan = this.timelinePlanner.plan(context.request, songDuration, snapPoints, clipSourceDurations);
+      const totalClipDuration = plan.timeline.reduce((sum, segment) => sum + segment.duration, 0);
 
       // Update context metadata
       context.metadata = {
         songDuration,
+        songOffset: plan.songOffset,
+        outputDuration: plan.outputDuration,
+        clipSourceDurations,
+        clipHasAudio,
         totalClipDuration,
-        transitionOffsets
+        timeline: plan.timeline,
+        transitions: plan.transitions,
+        transitionOffsets: plan.transitionOffsets,
+        freezeDuration: plan.freezeDuration
       };
 
       this.logger.logStage('Metadata Extraction', 'complete', {
         songDuration,
+        songOffset: plan.songOffset,
+        outputDuration: plan.outputDuration,
         totalClipDuration,
-        clipCount: clipDurations.length,
-        transitionOffsets
+        videoDuration: plan.videoDuration,
+        segmentCount: plan.timeline.length,
+        transitions: plan.transitions,
+        transitionOffsets: plan.transitionOffsets,
+        freezeDuration: plan.freezeDuration
       });
 
     } catch (error) {
@@ -220,11 +533,66 @@ export class VideoProcessor {
     }
   }
 
+  /**
+   * Beat or bar timestamps to snap clip boundaries to, when syncToBeat is on.
+   * Beat detection is best-effort: on failure the declared clip durations are used.
+   */
+  private async getBeatSnapPoints(context: ProcessingContext, songDuration: number): Promise<number[]> {
+    if (!context.request.syncToBeat) {
+      return [];
+    }
+
+    try {
+      const analysis = await this.beatDetector.detectBeats(context.localFiles.songFile);
+      const points = context.request.beatSnap === 'bar' ? analysis.bars : analysis.beats;
+      // Beats are found in the whole song; move them onto the segment's timeline
+      const songStart = context.request.songStart || 0;
+      return points
+        .map(point => point - songStart)
+        .filter(point => point > 0 && point < songDuration);
+    } catch (error) {
+      this.logger.warn('Beat detection failed, using declared clip durations', {
+        error: (error as Error).message
+      });
+      return [];
+    }
+  }
+
+  private async uploadRendition(
+    context: ProcessingContext,
+    publishers: Publisher[]
+  ): Promise<RenditionResult> {
+    const { rendition } = context;
+    // Captions go first so publishers can attach the uploaded sidecar
+    const captions = context.request.captions ? await this.uploadCaptions(context) : undefined;
+    const [outputUrl, thumbnailUrl, published] = await Promise.all([
+      this.uploadOutput(context),
+      this.uploadThumbnail(context),
+      Promise.all(publishers.map(publisher => this.publish(context, publisher, captions)))
+    ]);
+
+    return {
+      name: rendition.name,
+      aspectRatio: rendition.aspectRatio,
+      width: rendition.width,
+      height: rendition.height,
+      outputUrl,
+      thumbnailUrl,
+      published,
+      ...(captions && { captions })
+    };
+  }
+
+  private getFileVariant(context: ProcessingContext): string | undefined {
+    return context.renditionCount > 1 ? context.rendition.name : undefined;
+  }
+
   private async uploadOutput(context: ProcessingContext): Promise<string> {
     const fileName = this.fileManager.generateFileName(
       context.request.songId,
       this.processId,
-      'mp4'
+      'mp4',
+      this.getFileVariant(context)
     );
     const blobPath = this.fileManager.generateBlobPath(context.request.songId, fileName);
     
@@ -239,7 +607,8 @@ export class VideoProcessor {
     const fileName = this.fileManager.generateFileName(
       context.request.songId,
       this.processId,
-      'jpg'
+      'jpg',
+      this.getFileVariant(context)
     );
     const blobPath = this.fileManager.generateThumbnailBlobPath(context.request.songId, fileName);
     
@@ -250,13 +619,59 @@ export class VideoProcessor {
     );
   }
 
-  private async uploadToMux(context: ProcessingContext) {
-    return await this.muxService.uploadVideo(
-      context.localFiles.outputFile,
-      context.request.songId,
-      this.processId,
-      context.request.songTitle
-    );
+  private async uploadCaptions(context: ProcessingContext): Promise<RenditionCaptions> {
+    const captions = context.request.captions!;
+    const sidecars: CaptionSidecar[] = [];
+
+    for (const format of captions.sidecars || []) {
+      const localFile = context.localFiles.captionFiles?.[format];
+      if (!localFile) {
+        continue;
+      }
+      const fileName = this.fileManager.generateFileName(
+        context.request.songId,
+        this.processId,
+        format,
+        this.getFileVariant(context)
+      );
+      const blobPath = this.fileManager.generateCaptionBlobPath(context.request.songId, fileName);
+      const url = await this.blobService.uploadCaption(localFile, blobPath, CAPTION_CONTENT_TYPES[format]);
+      sidecars.push({ format, url });
+    }
+
+    return {
+      language: captions.language || 'en',
+      softTrack: captions.softTrack === true,
+      sidecars
+    };
+  }
+
+  private async publish(
+    context: ProcessingContext,
+    publisher: Publisher,
+    captions?: RenditionCaptions
+  ): Promise<PublishResult> {
+    const variant = this.getFileVariant(context);
+    const title = context.request.songTitle && variant
+      ? `${context.request.songTitle} (${variant})`
+      : context.request.songTitle;
+    // Players handle WebVTT best; SRT is used when it is the only sidecar
+    const sidecar = captions?.sidecars.find(file => file.format === 'vtt') || captions?.sidecars[0];
+
+    return await publisher.publish({
+      localFilePath: context.localFiles.outputFile,
+      songId: context.request.songId,
+      processId: this.processId,
+      fileName: this.fileManager.generateFileName(context.request.songId, this.processId, 'mp4', variant),
+      ...(title && { title }),
+      ...(sidecar && {
+        captions: {
+          url: sidecar.url,
+          language: captions!.language,
+          label: context.request.captions?.label || 'Lyrics'
+        }
+      })
+    });
   }
 
   private async cleanup(context: ProcessingContext): Promise<void> {
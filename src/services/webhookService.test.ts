@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { WebhookService } from './webhookService';
+import { ProcessVideoResponse } from '../types';
+
+const post = jest.spyOn(axios, 'post');
+
+const payload: ProcessVideoResponse = {
+  status: 'completed',
+  renditions: [],
+  duration: 30,
+  message: 'Video processed successfully',
+  processingTimeMs: 1000
+};
+
+function httpError(status: number): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, undefined, {
+    status
+  } as AxiosResponse);
+}
+
+beforeEach(() => {
+  post.mockReset();
+  process.env.WEBHOOK_SECRET = 'test-secret';
+  process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+  process.env.WEBHOOK_RETRY_DELAY_MS = '0';
+});
+
+afterAll(() => {
+  delete process.env.WEBHOOK_SECRET;
+  delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  delete process.env.WEBHOOK_RETRY_DELAY_MS;
+});
+
+describe('WebhookService', () => {
+  it('signs the timestamp and raw body with the shared secret', async () => {
+    post.mockResolvedValue({ status: 200 });
+
+    await expect(new WebhookService('job-1').deliver('https://example.com/hook', payload)).resolves.toBe(true);
+
+    const [url, body, config] = post.mock.calls[0]!;
+    const headers = config!.headers as Record<string, string>;
+    const expected = crypto
+      .createHmac('sha256', 'test-secret')
+      .update(`${headers['X-Webhook-Timestamp']}.${body}`)
+      .digest('hex');
+
+    expect(url).toBe('https://example.com/hook');
+    expect(JSON.parse(body as string)).toEqual(payload);
+    expect(headers['X-Process-Id']).toBe('job-1');
+    expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+  });
+
+  it.each([500, 408, 429])('retries %i responses', async status => {
+    post.mockRejectedValueOnce(httpError(status)).mockResolvedValueOnce({ status: 200 });
+
+    await expect(new WebhookService('job-1').deliver('https://example.com/hook', payload)).resolves.toBe(true);
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network errors', async () => {
+    post.mockRejectedValueOnce(new Error('socket hang up')).mockResolvedValueOnce({ status: 200 });
+
+    await expect(new WebhookService('job-1').deliver('https://example.com/hook', payload)).resolves.toBe(true);
+    expect(post).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry other 4xx responses', async () => {
+    post.mockRejectedValue(httpError(400));
+
+    await expect(new WebhookService('job-1').deliver('https://example.com/hook', payload)).resolves.toBe(false);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after WEBHOOK_MAX_ATTEMPTS', async () => {
+    post.mockRejectedValue(httpError(503));
+
+    await expect(new WebhookService('job-1').deliver('https://example.com/hook', payload)).resolves.toBe(false);
+    expect(post).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips delivery without a secret', async () => {
+    delete process.env.WEBHOOK_SECRET;
+
+    await expect(new WebhookService('job-1').deliver('https://example.com/hook', payload)).resolves.toBe(false);
+    expect(post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { ProcessLogger } from '../utils/logger';
+import { ProcessVideoErrorResponse, ProcessVideoResponse } from '../types';
+
+export type WebhookPayload = ProcessVideoResponse | ProcessVideoErrorResponse;
+
+export class WebhookService {
+  private logger: ProcessLogger;
+  private processId: string;
+  private secret: string;
+  private maxAttempts: number;
+  private initialDelayMs: number;
+
+  constructor(processId: string) {
+    this.logger = new ProcessLogger(processId);
+    this.processId = processId;
+    this.secret = process.env.WEBHOOK_SECRET || '';
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+    this.initialDelayMs = parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '1000', 10);
+  }
+
+  /**
+   * Sign a payload body with the shared secret.
+   * The signature covers `${timestamp}.${body}` so receivers can reject replays.
+   */
+  sign(body: string, timestamp: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  /**
+   * POST the final processing result to the caller's callback URL.
+   * Network errors, 5xx, 408 and 429 responses are retried with exponential
+   * backoff; other 4xx responses are final. Delivery errors are logged but
+   * never fail the processing job itself.
+   */
+  async deliver(callbackUrl: string, payload: WebhookPayload): Promise<boolean> {
+    const startTime = Date.now();
+    this.logger.logStage('Webhook Delivery', 'start', { callbackUrl, status: payload.status });
+
+    if (!this.secret) {
+      this.logger.warn('WEBHOOK_SECRET not configured, skipping webhook delivery', { callbackUrl });
+      return false;
+    }
+
+    const body = JSON.stringify(payload);
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      // Re-sign on every attempt so the timestamp stays fresh
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+
+      try {
+        const response = await axios.post(callbackUrl, body, {
+          timeout: 10000,
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'FFmpeg-Video-Processor/1.0',
+            'X-Process-Id': this.processId,
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': `sha256=${this.sign(body, timestamp)}`
+          }
+        });
+
+        this.logger.logTiming('Webhook Delivery', startTime, {
+          callbackUrl,
+          attempt,
+          responseStatus: response.status
+        });
+        return true;
+
+      } catch (error) {
+        const responseStatus = axios.isAxiosError(error) ? error.response?.status : undefined;
+        const isLastAttempt = attempt === this.maxAttempts || !isRetryableStatus(responseStatus);
+        const delayMs = this.initialDelayMs * Math.pow(2, attempt - 1);
+
+        this.logger.warn('Webhook delivery attempt failed', {
+          callbackUrl,
+          attempt,
+          maxAttempts: this.maxAttempts,
+          error: (error as Error).message,
+          responseStatus,
+          nextRetryInMs: isLastAttempt ? undefined : delayMs
+        });
+
+        if (isLastAttempt) {
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+
+    this.logger.logStage('Webhook Delivery', 'error', { callbackUrl });
+    return false;
+  }
+}
+
+// The receiver rejected the payload itself; sending it again won't help
+function isRetryableStatus(status: number | undefined): boolean {
+  return status === undefined || status >= 500 || status === 408 || status === 429;
+}
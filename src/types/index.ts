@@ -1,5 +1,111 @@
+// Transition names accepted by FFmpeg's xfade filter
+export const XFADE_TRANSITIONS = [
+  'fade', 'fadeblack', 'fadewhite', 'fadegrays', 'dissolve', 'distance',
+  'wipeleft', 'wiperight', 'wipeup', 'wipedown', 'wipetl', 'wipetr', 'wipebl', 'wipebr',
+  'slideleft', 'slideright', 'slideup', 'slidedown',
+  'smoothleft', 'smoothright', 'smoothup', 'smoothdown',
+  'circlecrop', 'rectcrop', 'circleopen', 'circleclose',
+  'vertopen', 'vertclose', 'horzopen', 'horzclose',
+  'diagtl', 'diagtr', 'diagbl', 'diagbr',
+  'hlslice', 'hrslice', 'vuslice', 'vdslice',
+  'radial', 'pixelize', 'hblur', 'squeezeh', 'squeezev', 'zoomin'
+] as const;
+
+export type XfadeTransition = typeof XFADE_TRANSITIONS[number];
+
+// 'cut' is a hard cut with no overlap between clips
+export type TransitionType = XfadeTransition | 'cut';
+
+export interface ClipTransition {
+  type: TransitionType;
+  duration?: number;
+}
+
+// How a clip is fitted into the output frame when aspect ratios differ
+// - stretch: scale to the exact output size (distorts)
+// - cover: scale up and center-crop
+// - contain: scale down and letterbox/pillarbox with backgroundColor
+// - blur-fill: contain over a blurred, cropped copy of the clip
+export type FitMode = 'stretch' | 'cover' | 'contain' | 'blur-fill';
+
+// A clip is footage, or a still image (jpg/png/webp) shown for its duration
+export const CLIP_TYPES = ['video', 'image'] as const;
+export type ClipType = typeof CLIP_TYPES[number];
+
+// Ken Burns pan/zoom over an image clip, from the start values to the end values
+export interface KenBurnsPath {
+  // 1 = the whole fitted frame, 2 = half its width and height
+  startZoom?: number;
+  endZoom?: number;
+  // Center of the visible area as a share of the frame width/height
+  startX?: number;
+  startY?: number;
+  endX?: number;
+  endY?: number;
+}
+
 export interface VideoClip {
+  // Defaults to 'video'
+  type?: ClipType;
+  url: string;
+  // Seconds the clip occupies in the output (derived from startTime/endTime/speed when endTime is set)
+  duration: number;
+  // In-point within the source file, in seconds (video clips only, as are endTime, speed and keepAudio)
+  startTime?: number;
+  // Out-point within the source file, in seconds
+  endTime?: number;
+  // Playback rate (0.5 = half-speed slow motion, 2 = double speed)
+  speed?: number;
+  // Overrides the request's fitMode/backgroundColor for this clip
+  fitMode?: FitMode;
+  backgroundColor?: string;
+  // Transition from this clip into the next one (ignored on the last clip)
+  transition?: ClipTransition;
+  // Mix the clip's own audio over the song, which ducks under it
+  keepAudio?: boolean;
+  // Gain for the kept clip audio (1 = as recorded)
+  audioVolume?: number;
+  // Image clips only; without it the image is shown still
+  kenBurns?: KenBurnsPath;
+}
+
+// Narration or intro sting mixed over the song, which ducks under it
+export interface VoiceOverTrack {
   url: string;
+  // Seconds into the video where the track starts
+  startTime?: number;
+  // Gain (1 = as recorded)
+  volume?: number;
+}
+
+export interface AudioMixOptions {
+  // Gain for the song (1 = as recorded)
+  musicVolume?: number;
+  // Compress the song while kept clip audio or the voice-over plays (default true)
+  ducking?: boolean;
+  // Normalize the final mix with loudnorm (default true when audioMix is given)
+  normalizeLoudness?: boolean;
+  // Integrated loudness target in LUFS (defaults to LOUDNESS_TARGET_LUFS)
+  loudnessTarget?: number;
+}
+
+// How to cover the song when the clips are shorter than it
+export type FillStrategy = 'loop' | 'freeze' | 'stretch' | 'fail';
+
+export interface TimelineSegment {
+  // Index into getTimelineClips() (the video clips, then the branding intro,
+  // then the outro) and localFiles.videoClips
+  clipIndex: number;
+  // In-point within the source file, in seconds
+  startTime: number;
+  // Seconds this segment occupies in the output (after speed changes)
+  duration: number;
+  // Playback rate applied to the source (1 = normal, < 1 = slower)
+  speed: number;
+}
+
+export interface ResolvedTransition {
+  type: TransitionType;
   duration: number;
 }
 
@@ -7,25 +113,214 @@ export interface AssFile {
   url: string;
 }
 
+export const LYRICS_FORMATS = ['lrc', 'srt', 'vtt', 'json'] as const;
+export type LyricsFormat = typeof LYRICS_FORMATS[number];
+
+// Style presets for subtitles generated from lyrics (see SubtitleGenerator)
+export const SUBTITLE_PRESETS = ['playful', 'bold', 'elegant'] as const;
+export type SubtitlePreset = typeof SUBTITLE_PRESETS[number];
+
+export interface LyricsWordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// One line of word-level JSON lyrics; start/end default to the first/last word
+export interface LyricsLineTiming {
+  text?: string;
+  start?: number;
+  end?: number;
+  words?: LyricsWordTiming[];
+}
+
+// Timed lyrics to generate karaoke ASS subtitles from, instead of an assFile
+export interface LyricsInput {
+  format: LyricsFormat;
+  // Exactly one of url, content (lrc/srt/vtt text) or lines (json) is given
+  url?: string;
+  content?: string;
+  lines?: LyricsLineTiming[];
+  preset?: SubtitlePreset;
+  // Highlight words as they are sung with \k tags
+  karaoke?: boolean;
+}
+
+// Caption sidecar formats converted from the ASS subtitles
+export const CAPTION_FORMATS = ['vtt', 'srt'] as const;
+export type CaptionFormat = typeof CAPTION_FORMATS[number];
+
+// Text captions derived from the burned-in subtitles, for players and search engines
+export interface CaptionOptions {
+  // Mux a soft mov_text subtitle track into the MP4
+  softTrack?: boolean;
+  // Sidecar files to upload to storage; Mux publishes also get one as a text track
+  sidecars?: CaptionFormat[];
+  // BCP 47 language code, e.g. "en" or "pt-BR"
+  language?: string;
+  // Track name shown in players
+  label?: string;
+}
+
+// Audio visualizers drawn from the song: showwaves, showspectrum and avectorscope
+export const VISUALIZER_STYLES = ['waveform', 'spectrum', 'vectorscope'] as const;
+export type VisualizerStyle = typeof VISUALIZER_STYLES[number];
+
+// An audio-reactive layer composited over the clips, beneath the subtitles
+export interface VisualizerLayer {
+  style: VisualizerStyle;
+  // Top-left corner as a share of the output width/height (defaults depend on the style)
+  x?: number;
+  y?: number;
+  // Size as a share of the output width/height; a vectorscope is square by default
+  width?: number;
+  height?: number;
+  // #RRGGBB
+  color?: string;
+  // 0 (invisible) to 1 (opaque)
+  opacity?: number;
+}
+
+// Corner of the frame a branding logo is anchored to
+export const LOGO_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const;
+export type LogoPosition = typeof LOGO_POSITIONS[number];
+
+// A label logo or watermark image overlaid on the video
+export interface BrandingLogo {
+  // jpg, png or webp; use a png with transparency for a logo without a box
+  url: string;
+  position?: LogoPosition;
+  // Distance from the corner's edges as a share of the output width
+  margin?: number;
+  // Logo width as a share of the output width
+  scale?: number;
+  // 0 (invisible) to 1 (opaque)
+  opacity?: number;
+  // Show the logo only from startTime to endTime, in output seconds
+  startTime?: number;
+  endTime?: number;
+  // Draw the logo over the subtitles instead of beneath them
+  aboveSubtitles?: boolean;
+}
+
+export interface BrandingOptions {
+  logo?: BrandingLogo;
+  // Card clips placed before and after the video clips, joined with their transitions
+  intro?: VideoClip;
+  outro?: VideoClip;
+}
+
+export type CompressionLevel = 'balanced' | 'high' | 'maximum';
+
+// One output variant to render from the same downloaded assets
+export interface OutputSpec {
+  // Label used in file names and the response (defaults to the aspect ratio, e.g. "9x16")
+  name?: string;
+  aspectRatio: OutputAspectRatio;
+  resolution?: OutputResolution;
+  outputSize?: AspectRatioConfig;
+  compressionLevel?: CompressionLevel;
+  // Subtitles for this variant (defaults to the request's assFile or lyrics)
+  assFile?: AssFile;
+}
+
 export interface ProcessVideoRequest {
   videoClips: VideoClip[];
-  assFile: AssFile;
+  // Exactly one of assFile or lyrics is required
+  assFile?: AssFile;
+  lyrics?: LyricsInput;
+  // Adapt ASS files authored for another frame shape to each output (default true)
+  subtitleRelayout?: boolean;
+  captions?: CaptionOptions;
   songUrl: string;
+  // Render only this part of the song, in seconds (defaults to all of it)
+  songStart?: number;
+  songEnd?: number;
+  // Fade audio and video in from / out to black, in seconds
+  fadeInDuration?: number;
+  fadeOutDuration?: number;
+  voiceOver?: VoiceOverTrack;
+  audioMix?: AudioMixOptions;
   songId: string;
   songTitle?: string;
-  outputAspectRatio: '9:16' | '16:9';
+  // Single-output shorthand; required unless `outputs` is given
+  outputAspectRatio?: OutputAspectRatio;
+  resolution?: OutputResolution;
+  // Explicit output dimensions; overrides outputAspectRatio/resolution sizing
+  outputSize?: AspectRatioConfig;
+  // Render several variants in one job; replaces the single-output fields above
+  outputs?: OutputSpec[];
   transitionDuration?: number;
-  compressionLevel?: 'balanced' | 'high' | 'maximum';
+  compressionLevel?: CompressionLevel;
   audioBitrate?: number;
+  callbackUrl?: string;
+  // Where to publish each rendition after upload (defaults to ['mux'])
+  publishTo?: PublishTarget[];
+  syncToBeat?: boolean;
+  beatSnap?: 'beat' | 'bar';
+  fillStrategy?: FillStrategy;
+  fitMode?: FitMode;
+  // Letterbox color for the contain fit mode (#RRGGBB or an FFmpeg color name)
+  backgroundColor?: string;
+  visualizers?: VisualizerLayer[];
+  branding?: BrandingOptions;
+}
+
+export const PUBLISH_TARGETS = ['mux', 'local-folder', 'none'] as const;
+export type PublishTarget = typeof PUBLISH_TARGETS[number];
+
+// Outcome of handing a rendition to one publish target
+export interface PublishResult {
+  target: PublishTarget;
+  assetId?: string;
+  playbackId?: string;
+  url?: string;
+  path?: string;
+  // Text track created from the caption sidecar (Mux)
+  textTrackId?: string;
+}
+
+export interface CaptionSidecar {
+  format: CaptionFormat;
+  url: string;
+}
+
+export interface RenditionCaptions {
+  language: string;
+  // The MP4 carries a mov_text subtitle track
+  softTrack: boolean;
+  sidecars: CaptionSidecar[];
+}
+
+export interface RenditionResult {
+  name: string;
+  aspectRatio: OutputAspectRatio;
+  width: number;
+  height: number;
+  outputUrl: string;
+  thumbnailUrl: string;
+  // One entry per requested publishTo target
+  published: PublishResult[];
+  // Set when the request asked for captions
+  captions?: RenditionCaptions;
 }
 
 export interface ProcessVideoResponse {
   status: 'completed';
-  muxAssetId: string;
-  muxPlaybackId: string;
+  renditions: RenditionResult[];
   duration: number;
   message: string;
   processingTimeMs: number;
+  // Non-fatal input findings (missing fonts, overlapping subtitle lines, silent clips, ...)
+  warnings?: string[];
+}
+
+// Everything wrong with one input asset, found while probing
+export interface AssetValidationIssue {
+  asset: string;
+  // Unset for assets without a URL (e.g. subtitles generated from inline lyrics)
+  url?: string;
+  problems: string[];
 }
 
 export interface ProcessVideoErrorResponse {
@@ -35,6 +330,7 @@ export interface ProcessVideoErrorResponse {
     message: string;
     details: string;
     stage: ProcessingStage;
+    issues?: AssetValidationIssue[];
   };
 }
 
@@ -50,6 +346,8 @@ export enum ProcessingErrorCode {
 export enum ProcessingStage {
   VALIDATION = 'validation',
   ASSET_DOWNLOAD = 'asset_download',
+  SUBTITLE_GENERATION = 'subtitle_generation',
+  INPUT_PROBING = 'input_probing',
   METADATA_EXTRACTION = 'metadata_extraction',
   FFMPEG_CONSTRUCTION = 'ffmpeg_construction',
   VIDEO_PROCESSING = 'video_processing',
@@ -57,41 +355,162 @@ export enum ProcessingStage {
   CLEANUP = 'cleanup'
 }
 
+// A resolved output variant being rendered
+export interface Rendition {
+  name: string;
+  index: number;
+  aspectRatio: OutputAspectRatio;
+  width: number;
+  height: number;
+  compressionLevel: CompressionLevel;
+  // Unset when the subtitles are generated from the request's lyrics
+  assFileUrl?: string;
+}
+
 export interface ProcessingContext {
   processId: string;
   request: ProcessVideoRequest;
+  // The output variant this context renders
+  rendition: Rendition;
+  renditionCount: number;
   tempDir: string;
   startTime: number;
   localFiles: {
+    // One file per timeline clip (see TimelineSegment.clipIndex)
     videoClips: string[];
     assFile: string;
     songFile: string;
     outputFile: string;
     thumbnailFile: string;
+    // Captions converted from assFile, per format (when the request asks for captions)
+    captionFiles?: Partial<Record<CaptionFormat, string>>;
+    voiceOverFile?: string;
+    logoFile?: string;
   };
   metadata: {
+    // Length of the song segment being rendered
     songDuration: number;
+    // Seconds of intro card before the song starts
+    songOffset: number;
+    // Output length: the song plus the parts of the intro and outro cards outside it
+    outputDuration: number;
+    // Actual source durations reported by ffprobe, per timeline clip
+    clipSourceDurations: number[];
+    // Whether each timeline clip has an audio stream
+    clipHasAudio: boolean[];
     totalClipDuration: number;
+    timeline: TimelineSegment[];
+    transitions: ResolvedTransition[];
     transitionOffsets: number[];
+    // Seconds to hold the last video clip's frame so the video covers the whole
+    // song (held before the outro card when there is one)
+    freezeDuration: number;
   };
 }
 
+export interface StageEvent {
+  type: 'stage';
+  stage: ProcessingStage;
+  progress: number;
+}
+
+export interface StepEvent {
+  type: 'step';
+  step: string;
+  action: 'start' | 'complete' | 'error';
+  details?: Record<string, any>;
+}
+
+export interface DownloadProgressEvent {
+  type: 'download';
+  asset: string;
+  bytesReceived: number;
+  totalBytes: number | null;
+  percent: number | null;
+  // Served from the local download cache
+  cached?: boolean;
+}
+
+export interface EncodeProgressEvent {
+  type: 'encode';
+  rendition: string;
+  renditionIndex: number;
+  renditionCount: number;
+  percent: number;
+  timemark: string;
+}
+
+export interface UploadStatusEvent {
+  type: 'upload';
+  target: string;
+  status: string;
+  details?: Record<string, any>;
+}
+
+export type ProcessingEvent =
+  | StageEvent
+  | StepEvent
+  | DownloadProgressEvent
+  | EncodeProgressEvent
+  | UploadStatusEvent;
+
+export interface JobStatusEvent {
+  type: 'job';
+  job: JobRecord;
+}
+
+export type JobStreamEvent = ProcessingEvent | JobStatusEvent;
+
+export const JOB_STATUSES = ['queued', 'processing', 'completed', 'failed'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface JobRecord {
+  jobId: string;
+  status: JobStatus;
+  stage: ProcessingStage | null;
+  progress: number;
+  createdAt: string;
+  updatedAt: string;
+  result?: ProcessVideoResponse;
+  error?: ProcessVideoErrorResponse['error'];
+}
+
 export interface AspectRatioConfig {
   width: number;
   height: number;
 }
 
+export type OutputAspectRatio = '9:16' | '16:9' | '1:1' | '4:5';
+
+export type OutputResolution = '720p' | '1080p' | '4k';
+
+// Base (1080p) output sizes per aspect ratio
 export const ASPECT_RATIO_CONFIGS: Record<string, AspectRatioConfig> = {
   '9:16': { width: 1080, height: 1920 },
-  '16:9': { width: 1920, height: 1080 }
+  '16:9': { width: 1920, height: 1080 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 }
 };
 
+// Scale applied to ASPECT_RATIO_CONFIGS for each resolution tier
+export const RESOLUTION_SCALES: Record<OutputResolution, number> = {
+  '720p': 2 / 3,
+  '1080p': 1,
+  '4k': 2
+};
+
+// Limits for explicit output sizes (4K UHD pixel budget)
+export const MIN_OUTPUT_DIMENSION = 128;
+export const MAX_OUTPUT_DIMENSION = 4096;
+export const MAX_OUTPUT_PIXELS = 3840 * 2160;
+
 export class ProcessingError extends Error {
   constructor(
     public code: ProcessingErrorCode,
     public stage: ProcessingStage,
     message: string,
-    public details?: string
+    public details?: string,
+    public issues?: AssetValidationIssue[]
   ) {
     super(message);
     this.name = 'ProcessingError';
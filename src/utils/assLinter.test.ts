@@ -0,0 +1,109 @@
+import { parseAss } from './assParser';
+import { getPlayRes, lintAss } from './assLinter';
+
+function script(scriptInfo: string[], styles: string[], events: string[]): string {
+  return [
+    '[Script Info]',
+    ...scriptInfo,
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    ...styles.map(style => `Style: ${style},60,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1`),
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events
+  ].join('\n');
+}
+
+const dialogue = (start: string, end: string, text: string, style = 'Default', layer = 0) =>
+  `Dialogue: ${layer},${start},${end},${style},,0,0,0,,${text}`;
+
+describe('getPlayRes', () => {
+  it('uses PlayResX and PlayResY when both are set', () => {
+    const document = parseAss(script(['PlayResX: 1080', 'PlayResY: 1920'], [], []));
+    expect(getPlayRes(document)).toEqual({ width: 1080, height: 1920, explicit: true });
+  });
+
+  it('derives a missing dimension the way libass does', () => {
+    expect(getPlayRes(parseAss(script(['PlayResX: 640'], [], []))))
+      .toEqual({ width: 640, height: 480, explicit: false });
+    expect(getPlayRes(parseAss(script(['PlayResY: 1024'], [], []))))
+      .toEqual({ width: 1280, height: 1024, explicit: false });
+    expect(getPlayRes(parseAss(script([], [], []))))
+      .toEqual({ width: 384, height: 288, explicit: false });
+  });
+});
+
+describe('lintAss', () => {
+  it('reports undefined styles and lines that end before they start', () => {
+    const document = parseAss(script([], ['Default,Arial'], [
+      dialogue('0:00:01.00', '0:00:02.00', 'a', 'Chorus'),
+      dialogue('0:00:05.00', '0:00:04.00', 'b')
+    ]));
+
+    const [first, second] = document.events;
+    expect(lintAss(document).map(issue => [issue.code, issue.line])).toEqual([
+      ['unknown-style', first!.line],
+      ['invalid-timing', second!.line]
+    ]);
+  });
+
+  it('reports fonts from styles and \\fn overrides that are not available', () => {
+    const document = parseAss(script([], ['Default,Montserrat'], [
+      dialogue('0:00:01.00', '0:00:02.00', '{\\fnComic Neue}a'),
+      dialogue('0:00:03.00', '0:00:04.00', '{\\fnRoboto}b')
+    ]));
+
+    const issues = lintAss(document, { availableFonts: new Set(['montserrat', 'roboto']) });
+    expect(issues).toEqual([expect.objectContaining({ code: 'missing-font', line: document.events[0]!.line })]);
+    expect(issues[0]!.message).toContain('"Comic Neue"');
+  });
+
+  it('reports lines that share a layer and placement while on screen together', () => {
+    const document = parseAss(script([], ['Default,Arial'], [
+      dialogue('0:00:01.00', '0:00:03.00', 'a'),
+      dialogue('0:00:02.00', '0:00:04.00', 'b'),
+      dialogue('0:00:02.00', '0:00:04.00', 'on another layer', 'Default', 1),
+      dialogue('0:00:02.00', '0:00:04.00', '{\\an8}at the top'),
+      dialogue('0:00:02.00', '0:00:04.00', '{\\pos(100,100)}positioned'),
+      dialogue('0:00:03.00', '0:00:05.00', 'after a ends')
+    ]));
+
+    const [a, b, , , , c] = document.events.map(event => event.line);
+    const overlaps = lintAss(document).filter(issue => issue.code === 'overlapping-lines');
+    expect(overlaps.map(issue => issue.message)).toEqual([
+      `line ${a} and line ${b} overlap between 2.00s and 3.00s`,
+      `line ${b} and line ${c} overlap between 3.00s and 4.00s`
+    ]);
+  });
+
+  it('reports lines that start or end after the song', () => {
+    const document = parseAss(script([], ['Default,Arial'], [
+      dialogue('0:00:08.00', '0:00:10.04', 'within tolerance'),
+      dialogue('0:00:09.00', '0:00:12.00', 'cut off', 'Default', 1),
+      dialogue('0:00:10.00', '0:00:11.00', 'never shown', 'Default', 2)
+    ]));
+
+    const [, cutOff, neverShown] = document.events;
+    const issues = lintAss(document, { songDuration: 10 });
+    expect(issues.map(issue => [issue.code, issue.line])).toEqual([
+      ['event-past-song-end', cutOff!.line],
+      ['event-past-song-end', neverShown!.line]
+    ]);
+    expect(issues[0]!.message).toContain('will be cut off');
+  });
+
+  it('reports outputs whose aspect ratio differs from PlayRes', () => {
+    const document = parseAss(script(['PlayResX: 1920', 'PlayResY: 1080'], [], []));
+
+    const issues = lintAss(document, {
+      outputs: [
+        { name: 'wide', width: 1280, height: 720 },
+        { name: 'vertical', width: 1080, height: 1920 }
+      ]
+    });
+    expect(issues).toEqual([expect.objectContaining({ code: 'play-res-mismatch' })]);
+    expect(issues[0]!.message).toContain('"vertical" output');
+  });
+});
@@ -0,0 +1,214 @@
+import { AssDocument, AssEvent, AssStyle, parseOverrideTags } from './assParser';
+
+export type AssLintCode =
+  | 'missing-font'
+  | 'overlapping-lines'
+  | 'event-past-song-end'
+  | 'play-res-mismatch'
+  | 'unknown-style'
+  | 'invalid-timing';
+
+export interface AssLintIssue {
+  code: AssLintCode;
+  message: string;
+  line?: number;
+}
+
+export interface AssLintOptions {
+  // Lower-cased font family names that FFmpeg can load (see fontCatalog)
+  availableFonts?: Set<string>;
+  songDuration?: number;
+  // Output sizes the script will be rendered at
+  outputs?: { name: string; width: number; height: number }[];
+}
+
+// Relative aspect ratio difference tolerated between PlayRes and the output
+const ASPECT_RATIO_TOLERANCE = 0.01;
+// Rounding slack (seconds) for event end times vs. the song duration
+const SONG_END_TOLERANCE = 0.05;
+
+/**
+ * The script resolution libass renders with. Missing values are derived the
+ * way libass does: 4:3 from the other dimension, or 384x288 when neither is set.
+ */
+export function getPlayRes(document: AssDocument): { width: number; height: number; explicit: boolean } {
+  const width = parseInt(document.scriptInfo['PlayResX'] || '', 10);
+  const height = parseInt(document.scriptInfo['PlayResY'] || '', 10);
+  const hasWidth = Number.isFinite(width) && width > 0;
+  const hasHeight = Number.isFinite(height) && height > 0;
+
+  if (hasWidth && hasHeight) {
+    return { width, height, explicit: true };
+  }
+  if (hasWidth) {
+    return { width, height: width === 1280 ? 1024 : Math.round((width * 3) / 4), explicit: false };
+  }
+  if (hasHeight) {
+    return { width: height === 1024 ? 1280 : Math.round((height * 4) / 3), height, explicit: false };
+  }
+  return { width: 384, height: 288, explicit: false };
+}
+
+export function lintAss(document: AssDocument, options: AssLintOptions = {}): AssLintIssue[] {
+  const dialogue = document.events.filter(event => event.type === 'Dialogue');
+  const stylesByName = new Map(document.styles.map(style => [style.name, style]));
+
+  return [
+    ...lintStylesAndTiming(dialogue, stylesByName),
+    ...(options.availableFonts ? lintFonts(dialogue, stylesByName, options.availableFonts) : []),
+    ...lintOverlaps(dialogue, stylesByName),
+    ...(options.songDuration !== undefined ? lintSongEnd(dialogue, options.songDuration) : []),
+    ...(options.outputs ? lintPlayRes(document, options.outputs) : [])
+  ];
+}
+
+// Style a line is rendered with; libass falls back to "Default" for unknown names
+function resolveStyle(event: AssEvent, stylesByName: Map<string, AssStyle>): AssStyle | undefined {
+  return stylesByName.get(event.style) || stylesByName.get('Default');
+}
+
+function lintStylesAndTiming(dialogue: AssEvent[], stylesByName: Map<string, AssStyle>): AssLintIssue[] {
+  const issues: AssLintIssue[] = [];
+
+  for (const event of dialogue) {
+    if (!stylesByName.has(event.style)) {
+      issues.push({
+        code: 'unknown-style',
+        message: `line ${event.line}: uses undefined style "${event.style}"`,
+        line: event.line
+      });
+    }
+    if (event.end <= event.start) {
+      issues.push({
+        code: 'invalid-timing',
+        message: `line ${event.line}: ends before it starts, so it is never shown`,
+        line: event.line
+      });
+    }
+  }
+
+  return issues;
+}
+
+function lintFonts(
+  dialogue: AssEvent[],
+  stylesByName: Map<string, AssStyle>,
+  availableFonts: Set<string>
+): AssLintIssue[] {
+  // First line each font is used on, from styles and \fn overrides
+  const fontUses = new Map<string, number>();
+  const addFont = (fontName: string, line: number) => {
+    const name = fontName.replace(/^@/, '').trim();
+    if (name && !fontUses.has(name)) {
+      fontUses.set(name, line);
+    }
+  };
+
+  for (const event of dialogue) {
+    const style = resolveStyle(event, stylesByName);
+    if (style) {
+      addFont(style.fontName, style.line);
+    }
+    for (const segment of parseOverrideTags(event.text)) {
+      for (const tag of segment.tags) {
+        if (tag.name === 'fn' && tag.args[0]) {
+          addFont(tag.args[0], event.line);
+        }
+      }
+    }
+  }
+
+  return [...fontUses.entries()]
+    .filter(([name]) => !availableFonts.has(name.toLowerCase()))
+    .map(([name, line]) => ({
+      code: 'missing-font' as const,
+      message: `line ${line}: font "${name}" is not in the fonts directory; a fallback font will be used`,
+      line
+    }));
+}
+
+// Lines on the same layer and position that are on screen at the same time stack on top of each other
+function lintOverlaps(dialogue: AssEvent[], stylesByName: Map<string, AssStyle>): AssLintIssue[] {
+  const issues: AssLintIssue[] = [];
+  const placed = dialogue
+    .filter(event => event.end > event.start)
+    .map(event => ({ event, placement: getPlacement(event, stylesByName) }))
+    .filter(item => item.placement !== null)
+    .sort((a, b) => a.event.start - b.event.start);
+
+  for (let i = 0; i < placed.length; i++) {
+    const current = placed[i]!;
+    for (let j = i + 1; j < placed.length && placed[j]!.event.start < current.event.end; j++) {
+      const other = placed[j]!;
+      if (other.event.layer === current.event.layer && other.placement === current.placement) {
+        issues.push({
+          code: 'overlapping-lines',
+          message: `line ${current.event.line} and line ${other.event.line} overlap between ` +
+            `${other.event.start.toFixed(2)}s and ${Math.min(current.event.end, other.event.end).toFixed(2)}s`,
+          line: other.event.line
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Alignment key for auto-placed lines, or null for lines positioned with \pos or \move
+function getPlacement(event: AssEvent, stylesByName: Map<string, AssStyle>): string | null {
+  let alignment = resolveStyle(event, stylesByName)?.alignment ?? 2;
+
+  for (const segment of parseOverrideTags(event.text)) {
+    for (const tag of segment.tags) {
+      if (tag.name === 'pos' || tag.name === 'move') {
+        return null;
+      }
+      if (tag.name === 'an' && tag.args[0]) {
+        alignment = parseInt(tag.args[0], 10);
+      }
+    }
+  }
+
+  return String(alignment);
+}
+
+function lintSongEnd(dialogue: AssEvent[], songDuration: number): AssLintIssue[] {
+  const issues: AssLintIssue[] = [];
+
+  for (const event of dialogue) {
+    if (event.start >= songDuration) {
+      issues.push({
+        code: 'event-past-song-end',
+        message: `line ${event.line}: starts at ${event.start.toFixed(2)}s, after the song ends (${songDuration.toFixed(2)}s)`,
+        line: event.line
+      });
+    } else if (event.end > songDuration + SONG_END_TOLERANCE) {
+      issues.push({
+        code: 'event-past-song-end',
+        message: `line ${event.line}: ends at ${event.end.toFixed(2)}s, after the song ends (${songDuration.toFixed(2)}s), and will be cut off`,
+        line: event.line
+      });
+    }
+  }
+
+  return issues;
+}
+
+function lintPlayRes(
+  document: AssDocument,
+  outputs: { name: string; width: number; height: number }[]
+): AssLintIssue[] {
+  const playRes = getPlayRes(document);
+  const scriptAspect = playRes.width / playRes.height;
+  const source = playRes.explicit
+    ? `PlayRes ${playRes.width}x${playRes.height}`
+    : `PlayRes ${playRes.width}x${playRes.height} (PlayResX/PlayResY not fully set)`;
+
+  return outputs
+    .filter(output => Math.abs(output.width / output.height - scriptAspect) / scriptAspect > ASPECT_RATIO_TOLERANCE)
+    .map(output => ({
+      code: 'play-res-mismatch' as const,
+      message: `${source} does not match the aspect ratio of the "${output.name}" output ` +
+        `(${output.width}x${output.height}); subtitles will be stretched`
+    }));
+}
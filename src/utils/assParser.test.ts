@@ -0,0 +1,194 @@
+import {
+  AssParseError,
+  formatAssTime,
+  parseAss,
+  parseAssTime,
+  parseOverrideTags,
+  serializeAss,
+  stripOverrideTags
+} from './assParser';
+
+const SCRIPT = [
+  '[Script Info]',
+  'Title: Test',
+  'PlayResX: 1920',
+  'PlayResY: 1080',
+  '',
+  '[V4+ Styles]',
+  'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+  'Style: Default,Montserrat,72,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,1,3,0,2,40,40,60,1',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  'Dialogue: 0,0:00:01.50,0:00:04.00,Default,,0,0,0,,{\\k50}Hello, {\\k80}world',
+  'Comment: 0,0:00:05.00,0:00:06.00,*Default,,0,0,0,,note',
+  '',
+  '[Fonts]',
+  'fontname: custom.ttf'
+].join('\n');
+
+describe('parseAssTime', () => {
+  it('parses H:MM:SS.CC timestamps', () => {
+    expect(parseAssTime('0:00:01.50')).toBe(1.5);
+    expect(parseAssTime('1:02:03.04')).toBeCloseTo(3723.04);
+  });
+
+  it('accepts millisecond fractions and comma separators', () => {
+    expect(parseAssTime('0:00:02.125')).toBeCloseTo(2.125);
+    expect(parseAssTime('0:00:02,5')).toBe(2.5);
+    expect(parseAssTime('0:00:07')).toBe(7);
+  });
+
+  it('rejects malformed timestamps with the line number', () => {
+    expect(() => parseAssTime('00:01.50', 12)).toThrow(new AssParseError('invalid timestamp "00:01.50"', 12));
+    expect(() => parseAssTime('abc')).toThrow(AssParseError);
+  });
+});
+
+describe('formatAssTime', () => {
+  it('formats seconds as H:MM:SS.CC', () => {
+    expect(formatAssTime(3723.04)).toBe('1:02:03.04');
+    expect(formatAssTime(61.256)).toBe('0:01:01.26');
+  });
+
+  it('clamps negative times to zero', () => {
+    expect(formatAssTime(-2)).toBe('0:00:00.00');
+  });
+});
+
+describe('parseOverrideTags', () => {
+  it('splits text into runs with the tags before them', () => {
+    expect(parseOverrideTags('{\\k50}Hel{\\k30\\b1}lo')).toEqual([
+      { tags: [{ name: 'k', args: ['50'] }], text: 'Hel' },
+      { tags: [{ name: 'k', args: ['30'] }, { name: 'b', args: ['1'] }], text: 'lo' }
+    ]);
+  });
+
+  it('prefers the longest tag name', () => {
+    const [segment] = parseOverrideTags('{\\fscx120\\fs40\\kf20\\1c&H00FF00&}x');
+    expect(segment!.tags).toEqual([
+      { name: 'fscx', args: ['120'] },
+      { name: 'fs', args: ['40'] },
+      { name: 'kf', args: ['20'] },
+      { name: '1c', args: ['&H00FF00&'] }
+    ]);
+  });
+
+  it('splits parenthesized arguments on top-level commas only', () => {
+    const [segment] = parseOverrideTags('{\\pos(960, 540)\\t(0,500,\\clip(0,0,10,10))}x');
+    expect(segment!.tags).toEqual([
+      { name: 'pos', args: ['960', '540'] },
+      { name: 't', args: ['0', '500', '\\clip(0,0,10,10)'] }
+    ]);
+  });
+
+  it('ignores comments in blocks and keeps escapes in the text', () => {
+    expect(parseOverrideTags('{note}a\\Nb{\\i1}')).toEqual([
+      { tags: [], text: 'a\\Nb' },
+      { tags: [{ name: 'i', args: ['1'] }], text: '' }
+    ]);
+  });
+
+  it('treats an unclosed brace as text', () => {
+    expect(parseOverrideTags('a{b')).toEqual([{ tags: [], text: 'a{b' }]);
+  });
+});
+
+describe('stripOverrideTags', () => {
+  it('removes every override block', () => {
+    expect(stripOverrideTags('{\\k50}Hello, {\\k80}world')).toBe('Hello, world');
+  });
+});
+
+describe('parseAss', () => {
+  it('parses script info, styles and events', () => {
+    const document = parseAss(SCRIPT);
+
+    expect(document.scriptInfo).toEqual({ Title: 'Test', PlayResX: '1920', PlayResY: '1080' });
+    expect(document.styles).toHaveLength(1);
+    expect(document.styles[0]).toMatchObject({
+      name: 'Default',
+      fontName: 'Montserrat',
+      fontSize: 72,
+      bold: true,
+      italic: false,
+      outline: 3,
+      alignment: 2,
+      marginV: 60,
+      line: 8
+    });
+    expect(document.events).toEqual([
+      expect.objectContaining({
+        type: 'Dialogue',
+        start: 1.5,
+        end: 4,
+        style: 'Default',
+        text: '{\\k50}Hello, {\\k80}world',
+        line: 12
+      }),
+      expect.objectContaining({ type: 'Comment', style: 'Default', text: 'note', line: 13 })
+    ]);
+    expect(document.otherSections).toEqual([{ name: 'Fonts', lines: ['fontname: custom.ttf'] }]);
+  });
+
+  it('follows a custom event format', () => {
+    const document = parseAss([
+      '[Script Info]',
+      '[Events]',
+      'Format: Start, End, Text',
+      'Dialogue: 0:00:01.00,0:00:02.00,a, b'
+    ].join('\n'));
+
+    expect(document.events[0]).toMatchObject({ start: 1, end: 2, text: 'a, b', style: 'Default' });
+  });
+
+  it('reports structural problems with line numbers', () => {
+    expect(() => parseAss('Title: x\n[Script Info]\n[Events]')).toThrow('line 1: content before the first section header');
+    expect(() => parseAss('[Script Info]\n[Events]\nDialogue: 0,0:00:01.00')).toThrow('line 3: expected 10 fields but found 2');
+    expect(() => parseAss('[Script Info]\nTitle: x')).toThrow('missing [Events] section');
+  });
+
+  it('converts SSA alignments to the numpad layout', () => {
+    const document = parseAss([
+      '[Script Info]',
+      'ScriptType: v4.00',
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      'Style: Bottom,Arial,20,16777215,255,0,0,0,0,1,2,0,2,10,10,10,0,0',
+      'Style: Top,Arial,20,16777215,255,0,0,0,0,1,2,0,6,10,10,10,0,0',
+      'Style: Middle,Arial,20,16777215,255,0,0,0,0,1,2,0,9,10,10,10,0,0',
+      '[Events]'
+    ].join('\n'));
+
+    expect(document.styles.map(style => style.alignment)).toEqual([2, 8, 4]);
+  });
+
+  it('round-trips through serializeAss', () => {
+    const document = parseAss(SCRIPT);
+    const reparsed = parseAss(serializeAss(document));
+
+    expect(reparsed.scriptInfo).toEqual({ ScriptType: 'v4.00+', ...document.scriptInfo });
+    expect(reparsed.styles.map(({ line, ...style }) => style))
+      .toEqual(document.styles.map(({ line, ...style }) => style));
+    expect(reparsed.events.map(({ line, ...event }) => event))
+      .toEqual(document.events.map(({ line, ...event }) => event));
+    expect(reparsed.otherSections).toEqual(document.otherSections);
+  });
+
+  it('serializes SSA scripts as V4+', () => {
+    const document = parseAss([
+      '[Script Info]',
+      'ScriptType: v4.00',
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      'Style: Top,Arial,20,16777215,255,0,0,0,0,1,2,0,6,10,10,10,0,0',
+      '[Events]'
+    ].join('\n'));
+    const output = serializeAss(document);
+
+    expect(output).toContain('ScriptType: v4.00+\n');
+    expect(output).not.toContain('ScriptType: v4.00\n');
+    expect(output).toContain('[V4+ Styles]');
+    expect(parseAss(output).styles[0]!.alignment).toBe(8);
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Typed parser for Advanced SubStation Alpha (.ass) subtitle scripts.
+ * Covers [Script Info], [V4+ Styles] (and SSA's [V4 Styles]), [Events] and
+ * the override tags inside event text. Other sections are kept verbatim.
+ */
+
+export interface AssStyle {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColour: string;
+  secondaryColour: string;
+  outlineColour: string;
+  backColour: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikeOut: boolean;
+  scaleX: number;
+  scaleY: number;
+  spacing: number;
+  angle: number;
+  borderStyle: number;
+  outline: number;
+  shadow: number;
+  // Numpad layout (1-3 bottom, 7-9 top); SSA alignments are converted on parse
+  alignment: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  encoding: number;
+  // 1-based line in the source script (0 for generated entries)
+  line: number;
+}
+
+export interface AssEvent {
+  type: 'Dialogue' | 'Comment';
+  layer: number;
+  // Seconds
+  start: number;
+  end: number;
+  style: string;
+  name: string;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  effect: string;
+  text: string;
+  // 1-based line in the source script (0 for generated entries)
+  line: number;
+}
+
+export interface AssOverrideTag {
+  name: string;
+  args: string[];
+}
+
+// A run of event text and the override tags that precede it
+export interface AssTextSegment {
+  tags: AssOverrideTag[];
+  text: string;
+}
+
+export interface AssSection {
+  name: string;
+  lines: string[];
+}
+
+export interface AssDocument {
+  scriptInfo: Record<string, string>;
+  styles: AssStyle[];
+  events: AssEvent[];
+  // Sections other than the three above (e.g. [Fonts], [Graphics]), unparsed
+  otherSections: AssSection[];
+}
+
+export class AssParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line !== undefined ? `line ${line}: ${message}` : message);
+    this.name = 'AssParseError';
+  }
+}
+
+export const DEFAULT_STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+  'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle', 'BorderStyle',
+  'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding'
+];
+
+// SSA ([V4 Styles]) alignment: 1-3 bottom, +4 top, +8 middle. ASS uses numpad layout
+const SSA_ALIGNMENTS: Record<number, number> = { 1: 1, 2: 2, 3: 3, 5: 7, 6: 8, 7: 9, 9: 4, 10: 5, 11: 6 };
+
+export const DEFAULT_EVENT_FORMAT = [
+  'Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'
+];
+
+// Override tag names, longest first so e.g. "\fscx" is not read as "\fs" + "cx"
+const OVERRIDE_TAG_NAMES = [
+  'xshad', 'yshad', 'xbord', 'ybord', 'iclip', 'alpha', 'fade',
+  'fscx', 'fscy', 'bord', 'shad', 'blur', 'move', 'clip',
+  'fsp', 'frx', 'fry', 'frz', 'fax', 'fay', 'fad', 'pos', 'org', 'pbo',
+  '1c', '2c', '3c', '4c', '1a', '2a', '3a', '4a',
+  'fs', 'fn', 'fe', 'fr', 'be', 'an', 'kf', 'ko',
+  'a', 'b', 'c', 'i', 'k', 'K', 'p', 'q', 'r', 's', 't', 'u'
+];
+
+export function parseAssTime(value: string, line?: number): number {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    throw new AssParseError(`invalid timestamp "${value}"`, line);
+  }
+
+  const fraction = match[4] ? parseInt(match[4], 10) / Math.pow(10, match[4].length) : 0;
+  return parseInt(match[1]!, 10) * 3600 + parseInt(match[2]!, 10) * 60 + parseInt(match[3]!, 10) + fraction;
+}
+
+// Format seconds as H:MM:SS.CC
+export function formatAssTime(seconds: number): string {
+  const totalCentiseconds = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCentiseconds / 360000);
+  const minutes = Math.floor((totalCentiseconds % 360000) / 6000);
+  const secs = Math.floor((totalCentiseconds % 6000) / 100);
+  const centiseconds = totalCentiseconds % 100;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(centiseconds)}`;
+}
+
+/**
+ * Split event text into override blocks and text runs. Drawing commands and
+ * escapes like \N are left in the text untouched.
+ */
+export function parseOverrideTags(text: string): AssTextSegment[] {
+  const segments: AssTextSegment[] = [];
+  let current: AssTextSegment = { tags: [], text: '' };
+  let index = 0;
+
+  while (index < text.length) {
+    const blockEnd = text[index] === '{' ? text.indexOf('}', index) : -1;
+    if (blockEnd === -1) {
+      current.text += text[index];
+      index++;
+      continue;
+    }
+
+    if (current.text.length > 0) {
+      segments.push(current);
+      current = { tags: [], text: '' };
+    }
+    current.tags.push(...parseOverrideBlock(text.slice(index + 1, blockEnd)));
+    index = blockEnd + 1;
+  }
+
+  if (current.text.length > 0 || current.tags.length > 0) {
+    segments.push(current);
+  }
+  return segments;
+}
+
+export function stripOverrideTags(text: string): string {
+  return text.replace(/\{[^}]*\}/g, '');
+}
+
+// Parse the inside of one {...} block; text that is not a tag (comments) is ignored
+function parseOverrideBlock(block: string): AssOverrideTag[] {
+  const tags: AssOverrideTag[] = [];
+  let index = block.indexOf('\\');
+
+  while (index !== -1 && index < block.length) {
+    // A tag runs until the next backslash outside parentheses
+    let end = index + 1;
+    let depth = 0;
+    while (end < block.length && (block[end] !== '\\' || depth > 0)) {
+      if (block[end] === '(') depth++;
+      if (block[end] === ')') depth = Math.max(0, depth - 1);
+      end++;
+    }
+
+    const body = block.slice(index + 1, end);
+    const name = OVERRIDE_TAG_NAMES.find(tagName => body.startsWith(tagName));
+    if (name) {
+      const rawArgs = body.slice(name.length).trim();
+      const args = rawArgs.startsWith('(')
+        ? splitTagArguments(rawArgs.replace(/^\(/, '').replace(/\)$/, ''))
+        : rawArgs.length > 0 ? [rawArgs] : [];
+      tags.push({ name, args });
+    }
+
+    index = end < block.length ? end : -1;
+  }
+
+  return tags;
+}
+
+// Split "a, b, \tag(c, d)" on top-level commas
+function splitTagArguments(value: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  args.push(current.trim());
+  return args;
+}
+
+/**
+ * Parse an ASS script. Throws AssParseError (with the 1-based line number)
+ * for structural problems; unknown sections and Script Info keys are kept.
+ */
+export function parseAss(content: string): AssDocument {
+  const document: AssDocument = { scriptInfo: {}, styles: [], events: [], otherSections: [] };
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const seenSections = new Set<string>();
+  let section: string | null = null;
+  let styleFormat: string[] | null = null;
+  let eventFormat: string[] | null = null;
+
+  lines.forEach((rawLine, i) => {
+    const lineNumber = i + 1;
+    const line = rawLine.trim();
+
+    if (line.length === 0 || line.startsWith(';') || line.startsWith('!:')) {
+      return;
+    }
+
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1]!.trim();
+      seenSections.add(section.toLowerCase());
+      if (!isKnownSection(section)) {
+        document.otherSections.push({ name: section, lines: [] });
+      }
+      return;
+    }
+
+    if (section === null) {
+      throw new AssParseError('content before the first section header', lineNumber);
+    }
+
+    const separator = line.indexOf(':');
+    if (!isKnownSection(section)) {
+      document.otherSections[document.otherSections.length - 1]!.lines.push(rawLine);
+      return;
+    }
+    if (separator === -1) {
+      throw new AssParseError(`expected "Key: value" in [${section}]`, lineNumber);
+    }
+
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    const sectionKey = section.toLowerCase();
+
+    if (sectionKey === 'script info') {
+      document.scriptInfo[key] = value;
+    } else if (sectionKey === 'v4+ styles' || sectionKey === 'v4 styles') {
+      if (key === 'Format') {
+        styleFormat = splitFormat(value);
+      } else if (key === 'Style') {
+        const legacy = sectionKey === 'v4 styles';
+        document.styles.push(parseStyle(value, styleFormat || DEFAULT_STYLE_FORMAT, lineNumber, legacy));
+      }
+    } else if (sectionKey === 'events') {
+      if (key === 'Format') {
+        eventFormat = splitFormat(value);
+      } else if (key === 'Dialogue' || key === 'Comment') {
+        document.events.push(parseEvent(key, value, eventFormat || DEFAULT_EVENT_FORMAT, lineNumber));
+      }
+    }
+  });
+
+  if (!seenSections.has('script info')) {
+    throw new AssParseError('missing [Script Info] section');
+  }
+  if (!seenSections.has('events')) {
+    throw new AssParseError('missing [Events] section');
+  }
+
+  return document;
+}
+
+function isKnownSection(section: string): boolean {
+  return ['script info', 'v4+ styles', 'v4 styles', 'events'].includes(section.toLowerCase());
+}
+
+function splitFormat(value: string): string[] {
+  return value.split(',').map(field => field.trim());
+}
+
+// Split a Style/Dialogue value into the format's fields; the last field keeps any commas
+function splitFields(value: string, format: string[], lineNumber: number): Record<string, string> {
+  const parts = value.split(',');
+  if (parts.length < format.length) {
+    throw new AssParseError(`expected ${format.length} fields but found ${parts.length}`, lineNumber);
+  }
+
+  const fields: Record<string, string> = {};
+  format.forEach((field, i) => {
+    fields[field.toLowerCase()] = i === format.length - 1
+      ? parts.slice(i).join(',')
+      : parts[i]!.trim();
+  });
+  return fields;
+}
+
+function parseNumber(fields: Record<string, string>, key: string, fallback: number, lineNumber: number): number {
+  const value = fields[key];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const number = parseFloat(value);
+  if (!Number.isFinite(number)) {
+    throw new AssParseError(`invalid ${key} "${value}"`, lineNumber);
+  }
+  return number;
+}
+
+function parseStyle(value: string, format: string[], lineNumber: number, legacy: boolean): AssStyle {
+  const fields = splitFields(value, format, lineNumber);
+  const number = (key: string, fallback: number) => parseNumber(fields, key, fallback, lineNumber);
+  // ASS uses -1 for true, SSA may use 1
+  const flag = (key: string) => number(key, 0) !== 0;
+  const alignment = number('alignment', 2);
+
+  return {
+    name: fields['name'] || 'Default',
+    fontName: fields['fontname'] || 'Arial',
+    fontSize: number('fontsize', 20),
+    primaryColour: fields['primarycolour'] || '&H00FFFFFF',
+    secondaryColour: fields['secondarycolour'] || '&H000000FF',
+    outlineColour: fields['outlinecolour'] || fields['tertiarycolour'] || '&H00000000',
+    backColour: fields['backcolour'] || '&H00000000',
+    bold: flag('bold'),
+    italic: flag('italic'),
+    underline: flag('underline'),
+    strikeOut: flag('strikeout'),
+    scaleX: number('scalex', 100),
+    scaleY: number('scaley', 100),
+    spacing: number('spacing', 0),
+    angle: number('angle', 0),
+    borderStyle: number('borderstyle', 1),
+    outline: number('outline', 2),
+    shadow: number('shadow', 2),
+    alignment: legacy ? SSA_ALIGNMENTS[alignment] ?? 2 : alignment,
+    marginL: number('marginl', 10),
+    marginR: number('marginr', 10),
+    marginV: number('marginv', 10),
+    encoding: number('encoding', 1),
+    line: lineNumber
+  };
+}
+
+function parseEvent(type: 'Dialogue' | 'Comment', value: string, format: string[], lineNumber: number): AssEvent {
+  const fields = splitFields(value, format, lineNumber);
+  const number = (key: string) => parseNumber(fields, key, 0, lineNumber);
+
+  if (fields['start'] === undefined || fields['end'] === undefined) {
+    throw new AssParseError('event has no Start/End fields', lineNumber);
+  }
+
+  return {
+    type,
+    layer: number('layer'),
+    start: parseAssTime(fields['start'], lineNumber),
+    end: parseAssTime(fields['end'], lineNumber),
+    style: (fields['style'] || 'Default').replace(/^\*/, ''),
+    name: fields['name'] || '',
+    marginL: number('marginl'),
+    marginR: number('marginr'),
+    marginV: number('marginv'),
+    effect: fields['effect'] || '',
+    text: fields['text'] || '',
+    line: lineNumber
+  };
+}
+
+/**
+ * Write a document back out as a V4+ script with the default Style/Event
+ * formats. Sections in otherSections are appended verbatim.
+ */
+export function serializeAss(document: AssDocument): string {
+  const flag = (value: boolean) => (value ? '-1' : '0');
+  // Styles are always written in the V4+ layout, whatever the source used
+  const { ScriptType, ...scriptInfo } = document.scriptInfo;
+
+  const lines = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    ...Object.entries(scriptInfo).map(([key, value]) => `${key}: ${value}`),
+    '',
+    '[V4+ Styles]',
+    `Format: ${DEFAULT_STYLE_FORMAT.join(', ')}`,
+    ...document.styles.map(style => 'Style: ' + [
+      style.name, style.fontName, style.fontSize, style.primaryColour, style.secondaryColour,
+      style.outlineColour, style.backColour, flag(style.bold), flag(style.italic), flag(style.underline),
+      flag(style.strikeOut), style.scaleX, style.scaleY, style.spacing, style.angle, style.borderStyle,
+      style.outline, style.shadow, style.alignment, style.marginL, style.marginR, style.marginV, style.encoding
+    ].join(',')),
+    '',
+    '[Events]',
+    `Format: ${DEFAULT_EVENT_FORMAT.join(', ')}`,
+    ...document.events.map(event => `${event.type}: ` + [
+      event.layer, formatAssTime(event.start), formatAssTime(event.end), event.style, event.name,
+      event.marginL, event.marginR, event.marginV, event.effect, event.text
+    ].join(','))
+  ];
+
+  for (const section of document.otherSections) {
+    lines.push('', `[${section.name}]`, ...section.lines);
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,71 @@
+import { parseAss } from './assParser';
+import { needsRelayout, relayoutAss } from './assRelayout';
+
+function script(scriptInfo: string[], events: string[]): string {
+  return [
+    '[Script Info]',
+    ...scriptInfo,
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,60,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,1,10,10,10,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events.map(text => `Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,${text}`)
+  ].join('\n');
+}
+
+const WIDE = ['PlayResX: 1920', 'PlayResY: 1080'];
+const VERTICAL = { width: 1080, height: 1920 };
+
+describe('needsRelayout', () => {
+  it('only asks for a relayout when the aspect ratio changes', () => {
+    const document = parseAss(script(WIDE, []));
+    expect(needsRelayout(document, { width: 1280, height: 720 })).toBe(false);
+    expect(needsRelayout(document, VERTICAL)).toBe(true);
+  });
+});
+
+describe('relayoutAss', () => {
+  it('moves PlayRes, margins and positions to the target frame', () => {
+    const document = parseAss(script([...WIDE, 'LayoutResX: 1920', 'LayoutResY: 1080'], ['{\\pos(960,540)\\fs80}Hi']));
+    const result = relayoutAss(document, VERTICAL);
+
+    expect(result.scriptInfo).toEqual({ PlayResX: '1080', PlayResY: '1920' });
+    expect(result.styles[0]).toMatchObject({ fontSize: 60, marginL: 6, marginR: 6, marginV: 18 });
+    // Positioned lines keep the left anchor of the source style
+    expect(result.events[0]!.text).toBe('{\\an1}{\\pos(540,960)\\fs80}Hi');
+    expect(result.events[0]!.line).toBe(document.events[0]!.line);
+  });
+
+  it('centers side alignments in a narrower frame', () => {
+    const result = relayoutAss(parseAss(script(WIDE, ['{\\an7}top'])), VERTICAL);
+
+    expect(result.styles[0]!.alignment).toBe(2);
+    expect(result.events[0]!.text).toBe('{\\an8}top');
+  });
+
+  it('scales sizes with the frame area unless borders are unscaled', () => {
+    const scaled = relayoutAss(parseAss(script(WIDE, ['{\\fs30\\bord1}a'])), { width: 3840, height: 2160 });
+    expect(scaled.styles[0]).toMatchObject({ fontSize: 120, outline: 4, alignment: 1 });
+    expect(scaled.events[0]!.text).toBe('{\\fs60\\bord2}a');
+
+    const unscaled = relayoutAss(
+      parseAss(script([...WIDE, 'ScaledBorderAndShadow: no'], ['{\\bord1}a'])),
+      { width: 3840, height: 2160 }
+    );
+    expect(unscaled.styles[0]).toMatchObject({ fontSize: 120, outline: 2 });
+    expect(unscaled.events[0]!.text).toBe('{\\bord1}a');
+  });
+
+  it('re-wraps lines that no longer fit at the balanced space and keeps tags', () => {
+    const words = Array.from({ length: 12 }, () => 'word');
+    const text = `{\\k10}${words.slice(0, 2).join(' ')}\\N${words.slice(2).join(' ')}`;
+    const result = relayoutAss(parseAss(script(WIDE, [text, 'short line'])), VERTICAL);
+
+    // 59 characters against about 44 per line: two lines of six words
+    expect(result.events[0]!.text).toBe(`{\\k10}${words.slice(0, 6).join(' ')}\\N${words.slice(6).join(' ')}`);
+    expect(result.events[1]!.text).toBe('short line');
+  });
+});
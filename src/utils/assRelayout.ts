@@ -0,0 +1,239 @@
+import { AssDocument, AssStyle } from './assParser';
+import { getPlayRes } from './assLinter';
+
+/**
+ * Adapts an ASS script authored for one frame shape to another (e.g. a 16:9
+ * script burned into a 9:16 output): PlayRes becomes the output size,
+ * positions and margins follow the frame, font sizes and borders scale with
+ * the frame area, side alignments are centered in narrower frames and long
+ * lines are re-wrapped to fit the new width.
+ */
+
+// Relative aspect ratio difference below which a script is left untouched
+const ASPECT_RATIO_TOLERANCE = 0.01;
+// Average glyph width as a share of the ASS font size (which is the line height,
+// not the em size), for estimating line widths; slightly wide to be safe
+const AVERAGE_CHAR_WIDTH = 0.4;
+
+interface LayoutScale {
+  // Horizontal and vertical position scale (PlayRes to PlayRes)
+  x: number;
+  y: number;
+  // Size scale for fonts, borders and shadows
+  size: number;
+  // Move left/right alignments to the center column
+  centerSides: boolean;
+  // Borders and shadows follow the script resolution (ScaledBorderAndShadow)
+  scaleBorders: boolean;
+}
+
+export function needsRelayout(document: AssDocument, target: { width: number; height: number }): boolean {
+  const playRes = getPlayRes(document);
+  const scriptAspect = playRes.width / playRes.height;
+  return Math.abs(target.width / target.height - scriptAspect) / scriptAspect > ASPECT_RATIO_TOLERANCE;
+}
+
+/**
+ * Return a copy of the document laid out for the target size. Event line
+ * numbers are kept, so lint findings still point at the source script.
+ */
+export function relayoutAss(document: AssDocument, target: { width: number; height: number }): AssDocument {
+  const playRes = getPlayRes(document);
+  const x = target.width / playRes.width;
+  const y = target.height / playRes.height;
+  const scale: LayoutScale = {
+    x,
+    y,
+    // Keep text covering the same share of the frame area
+    size: Math.sqrt(x * y),
+    centerSides: target.width / target.height < playRes.width / playRes.height,
+    scaleBorders: (document.scriptInfo['ScaledBorderAndShadow'] || 'yes').toLowerCase() !== 'no'
+  };
+
+  const { LayoutResX, LayoutResY, ...scriptInfo } = document.scriptInfo;
+  const styles = document.styles.map(style => scaleStyle(style, scale));
+  const stylesByName = new Map(styles.map(style => [style.name, style]));
+  const sourceStylesByName = new Map(document.styles.map(style => [style.name, style]));
+
+  return {
+    ...document,
+    scriptInfo: {
+      ...scriptInfo,
+      PlayResX: String(target.width),
+      PlayResY: String(target.height)
+    },
+    styles,
+    events: document.events.map(event => {
+      const style = stylesByName.get(event.style) || stylesByName.get('Default');
+      const marginL = Math.round(event.marginL * scale.x);
+      const marginR = Math.round(event.marginR * scale.x);
+      const sourceAlignment = (sourceStylesByName.get(event.style) || sourceStylesByName.get('Default'))?.alignment;
+      let text = scaleOverrideTags(event.text, scale);
+      // Positioned lines keep their anchor point when the style alignment is centered
+      if (isPositioned(text) && !/\\an\d/.test(text) && sourceAlignment !== undefined &&
+        sourceAlignment !== style?.alignment) {
+        text = `{\\an${sourceAlignment}}${text}`;
+      }
+      const availableWidth = target.width - (marginL || style?.marginL || 0) - (marginR || style?.marginR || 0);
+
+      return {
+        ...event,
+        marginL,
+        marginR,
+        marginV: Math.round(event.marginV * scale.y),
+        text: event.type === 'Dialogue' && style ? rewrapText(text, style, availableWidth) : text
+      };
+    })
+  };
+}
+
+function scaleStyle(style: AssStyle, scale: LayoutScale): AssStyle {
+  const borderScale = scale.scaleBorders ? scale.size : 1;
+
+  return {
+    ...style,
+    fontSize: round(style.fontSize * scale.size),
+    spacing: round(style.spacing * scale.size),
+    outline: round(style.outline * borderScale),
+    shadow: round(style.shadow * borderScale),
+    alignment: scale.centerSides ? centerAlignment(style.alignment) : style.alignment,
+    marginL: Math.round(style.marginL * scale.x),
+    marginR: Math.round(style.marginR * scale.x),
+    marginV: Math.round(style.marginV * scale.y)
+  };
+}
+
+// Numpad alignment (1-9) moved to the middle column of its row
+function centerAlignment(alignment: number): number {
+  if (alignment < 1 || alignment > 9) {
+    return alignment;
+  }
+  const row = Math.floor((alignment - 1) / 3);
+  return row * 3 + 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isPositioned(text: string): boolean {
+  return /\{[^}]*\\(pos|move)\(/.test(text);
+}
+
+// Rescale the coordinates and sizes in every override block of the text
+function scaleOverrideTags(text: string, scale: LayoutScale): string {
+  const borderScale = scale.scaleBorders ? scale.size : 1;
+  // \pos/\move coordinates refer to the anchor, so its alignment must not move
+  const centerSides = scale.centerSides && !isPositioned(text);
+  const number = (value: string, factor: number) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? String(round(parsed * factor)) : value;
+  };
+  // Scale "x, y, x, y, ..." argument lists; extra arguments (e.g. \move times) are kept
+  const points = (args: string, count: number) => args.split(',').map((arg, i) =>
+    i < count ? number(arg.trim(), i % 2 === 0 ? scale.x : scale.y) : arg.trim()
+  ).join(',');
+
+  return text.replace(/\{[^}]*\}/g, block => block
+    .replace(/\\pos\(([^)]*)\)/g, (_, args: string) => `\\pos(${points(args, 2)})`)
+    .replace(/\\org\(([^)]*)\)/g, (_, args: string) => `\\org(${points(args, 2)})`)
+    .replace(/\\move\(([^)]*)\)/g, (_, args: string) => `\\move(${points(args, 4)})`)
+    // Rectangular clips only; vector clips are drawn in their own coordinate space
+    .replace(/\\(i?clip)\(([^)]*)\)/g, (match, name: string, args: string) =>
+      args.split(',').length === 4 && !/[a-z]/i.test(args) ? `\\${name}(${points(args, 4)})` : match)
+    .replace(/\\fs(\d+(?:\.\d+)?)/g, (_, size: string) => `\\fs${number(size, scale.size)}`)
+    .replace(/\\fsp(-?\d+(?:\.\d+)?)/g, (_, spacing: string) => `\\fsp${number(spacing, scale.size)}`)
+    .replace(/\\([xy]?bord|[xy]?shad|blur)(-?\d+(?:\.\d+)?)/g,
+      (_, name: string, value: string) => `\\${name}${number(value, borderScale)}`)
+    .replace(/\\an([1-9])/g, (match, alignment: string) =>
+      centerSides ? `\\an${centerAlignment(parseInt(alignment, 10))}` : match)
+  );
+}
+
+type TextToken =
+  | { kind: 'tags'; raw: string }
+  | { kind: 'break'; raw: string }
+  | { kind: 'char'; raw: string };
+
+function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  const pattern = /\{[^}]*\}|\\[Nn]|\\h|[\s\S]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const raw = match[0];
+    if (raw.startsWith('{') && raw.length > 1) {
+      tokens.push({ kind: 'tags', raw });
+    } else if (raw === '\\N' || raw === '\\n') {
+      tokens.push({ kind: 'break', raw });
+    } else {
+      tokens.push({ kind: 'char', raw });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Re-break a line whose estimated width no longer fits: existing breaks are
+ * dropped and new \N breaks are placed at the spaces that best balance the
+ * line lengths. Tags stay where they were, so karaoke timing is unaffected.
+ */
+function rewrapText(text: string, style: AssStyle, availableWidth: number): string {
+  // Drawings (\p1 and up) are not text
+  if (/\\p[1-9]/.test(text) || availableWidth <= 0) {
+    return text;
+  }
+
+  const tokens = tokenize(text);
+  const fontSizeTag = text.match(/\\fs(\d+(?:\.\d+)?)/);
+  const fontSize = fontSizeTag ? parseFloat(fontSizeTag[1]!) : style.fontSize;
+  const charWidth = fontSize * AVERAGE_CHAR_WIDTH * (style.scaleX / 100) + style.spacing;
+  const maxChars = Math.max(1, Math.floor(availableWidth / charWidth));
+
+  // Visible lines as they are broken now
+  const lineLengths = [0];
+  for (const token of tokens) {
+    if (token.kind === 'break') {
+      lineLengths.push(0);
+    } else if (token.kind === 'char') {
+      lineLengths[lineLengths.length - 1]!++;
+    }
+  }
+  if (Math.max(...lineLengths) <= maxChars) {
+    return text;
+  }
+
+  // Join the existing lines, then pick break points among the spaces
+  const joined: TextToken[] = tokens.map(token =>
+    token.kind === 'break' ? { kind: 'char', raw: ' ' } : token
+  );
+  const chars = joined.filter(token => token.kind === 'char');
+  const totalChars = chars.length;
+  const lineCount = Math.ceil(totalChars / maxChars);
+  const targetLength = totalChars / lineCount;
+
+  const breakAt = new Set<TextToken>();
+  let lineStart = 0;
+  let lastSpace: { token: TextToken; position: number } | null = null;
+  chars.forEach((token, position) => {
+    if (token.raw !== ' ') {
+      return;
+    }
+    // Break at the space closest to the balanced length, never past the width
+    const target = lineStart + targetLength;
+    if (position >= target || position - lineStart > maxChars) {
+      const previous = lastSpace && lastSpace.position > lineStart ? lastSpace : null;
+      const candidate = previous && (position - lineStart > maxChars || target - previous.position < position - target)
+        ? previous
+        : { token, position };
+      if (candidate.position > lineStart) {
+        breakAt.add(candidate.token);
+        lineStart = candidate.position + 1;
+      }
+    }
+    lastSpace = { token, position };
+  });
+
+  return joined.map(token => (breakAt.has(token) ? '\\N' : token.raw)).join('');
+}
@@ -0,0 +1,86 @@
+import { parseAss } from './assParser';
+import { delayAssTimeline, trimAssTimeline } from './assTimeline';
+
+// Lines of the script run from 10s to 14s unless given their own times
+function script(events: Array<string | [string, string, string]>): string {
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,60,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events.map(event => {
+      const [start, end, text] = typeof event === 'string' ? ['0:00:10.00', '0:00:14.00', event] : event;
+      return `Dialogue: 0,${start},${end},Default,,0,0,0,,${text}`;
+    })
+  ].join('\n');
+}
+
+// Text of the single line left after cutting the song at 11s
+function trimmedText(text: string): string {
+  const document = trimAssTimeline(parseAss(script([text])), 11);
+  return document.events[0]!.text;
+}
+
+describe('trimAssTimeline', () => {
+  it('shifts lines to the segment start, drops lines outside it and clips its edges', () => {
+    const document = parseAss(script([
+      ['0:00:01.00', '0:00:02.00', 'Before'],
+      ['0:00:04.00', '0:00:06.00', 'Start'],
+      ['0:00:07.00', '0:00:08.00', 'Inside'],
+      ['0:00:09.00', '0:00:12.00', 'End'],
+      ['0:00:12.00', '0:00:13.00', 'After']
+    ]));
+
+    const result = trimAssTimeline(document, 5, 10);
+
+    expect(result.events.map(event => [event.text, event.start, event.end])).toEqual([
+      ['Start', 0, 1],
+      ['Inside', 2, 3],
+      ['End', 4, 5]
+    ]);
+    expect(result.events[0]!.line).toBe(document.events[1]!.line);
+  });
+
+  it('takes the skipped time off the karaoke durations', () => {
+    expect(trimmedText('{\\k60}One {\\kf80}two {\\k50}three')).toBe('{\\k0}One {\\kf40}two {\\k50}three');
+  });
+
+  it('finishes a partial \\fad from its current alpha and keeps the fade-out', () => {
+    expect(trimmedText('{\\fad(500,300)}Done')).toBe('{\\fad(0,300)}Done');
+    expect(trimmedText('{\\fad(2000,300)}Half')).toBe('{\\fade(128,0,255,0,1000,2700,3000)}Half');
+  });
+
+  it('shifts \\fade times and alphas', () => {
+    expect(trimmedText('{\\fade(255,0,128,0,2000,3000,4000)}Hi')).toBe('{\\fade(128,0,128,0,1000,2000,3000)}Hi');
+  });
+
+  it('moves a \\move start to where the line would be', () => {
+    expect(trimmedText('{\\move(0,0,400,200)}Hi')).toBe('{\\move(100,50,400,200)}Hi');
+    expect(trimmedText('{\\move(0,0,400,200,500,2500)}Hi')).toBe('{\\move(100,50,400,200,0,1500)}Hi');
+  });
+
+  it('shifts timed \\t transforms and leaves untimed ones', () => {
+    expect(trimmedText('{\\t(500,2000,\\fscx120)\\t(\\frz10)}Hi')).toBe('{\\t(0,1000,\\fscx120)\\t(\\frz10)}Hi');
+    expect(trimmedText('{\\t(1500,2000,0.5,\\fs(80))}Hi')).toBe('{\\t(500,1000,0.5,\\fs(80))}Hi');
+  });
+
+  it('leaves tags alone when only the end of a line is clipped', () => {
+    const text = '{\\fad(500,500)\\move(0,0,400,200)}Hi';
+    const document = trimAssTimeline(parseAss(script([text])), 10, 12);
+
+    expect(document.events[0]).toMatchObject({ start: 0, end: 2, text });
+  });
+});
+
+describe('delayAssTimeline', () => {
+  it('shifts every line later', () => {
+    const document = delayAssTimeline(parseAss(script(['Hi'])), 3.5);
+
+    expect(document.events[0]).toMatchObject({ start: 13.5, end: 17.5, text: 'Hi' });
+  });
+});
@@ -0,0 +1,206 @@
+import { AssDocument } from './assParser';
+
+/**
+ * Cuts an ASS script down to a segment of the song and moves it to start at
+ * 0, so its lines still match the audio when only part of the song is used.
+ *
+ * Events are shifted back by `start`. Lines outside the segment are dropped
+ * and lines crossing its edges are clipped. When a line's start is clipped,
+ * the time that has already passed is taken off its \k durations and its
+ * \fad, \fade, \move and \t timings (times are line-relative), so the rest of
+ * the line plays as it would have. \t without explicit times spans the whole
+ * line and is left as is. Clipping a line's end changes no tags.
+ * Event line numbers are kept, so lint findings still point at the source.
+ */
+export function trimAssTimeline(document: AssDocument, start: number, end?: number): AssDocument {
+  const segmentEnd = end !== undefined ? end - start : Infinity;
+
+  return {
+    ...document,
+    events: document.events.flatMap(event => {
+      const eventStart = event.start - start;
+      const eventEnd = Math.min(event.end - start, segmentEnd);
+      if (eventEnd <= 0 || eventStart >= segmentEnd) {
+        return [];
+      }
+
+      const text = eventStart < 0
+        ? skipAnimationTime(skipKaraokeTime(event.text, -eventStart), -eventStart * 1000, (event.end - event.start) * 1000)
+        : event.text;
+
+      return [{
+        ...event,
+        start: Math.max(0, eventStart),
+        end: eventEnd,
+        text
+      }];
+    })
+  };
+}
+
+/**
+ * Events are shifted later by `seconds`, e.g. to make room for an intro card
+ * before the song starts.
+ */
+export function delayAssTimeline(document: AssDocument, seconds: number): AssDocument {
+  return {
+    ...document,
+    events: document.events.map(event => ({
+      ...event,
+      start: event.start + seconds,
+      end: event.end + seconds
+    }))
+  };
+}
+
+// Take `seconds` off the leading \k, \K, \kf and \ko durations (centiseconds)
+function skipKaraokeTime(text: string, seconds: number): string {
+  let remaining = Math.round(seconds * 100);
+
+  return text.replace(/\\(kf|ko|k|K)(\d+(?:\.\d+)?)/g, (match, tag: string, value: string) => {
+    if (remaining <= 0) {
+      return match;
+    }
+    const duration = parseFloat(value);
+    const skipped = Math.min(duration, remaining);
+    remaining -= skipped;
+    return `\\${tag}${Math.round(duration - skipped)}`;
+  });
+}
+
+// Rewrite the timed tags of every {...} block as if the line started `skipMs`
+// later; `durationMs` is the line's original length
+function skipAnimationTime(text: string, skipMs: number, durationMs: number): string {
+  return text.replace(/\{[^}]*\}/g, block => {
+    let result = '';
+    let index = 0;
+    const pattern = /\\(fade|fad|move|t)\(/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(block)) !== null) {
+      const argsStart = match.index + match[0].length;
+      const argsEnd = findClosingParen(block, argsStart);
+      if (argsEnd === -1) {
+        break;
+      }
+
+      const tag = match[1] as string;
+      const args = splitArguments(block.slice(argsStart, argsEnd));
+      result += block.slice(index, match.index) + shiftTag(tag, args, skipMs, durationMs);
+      index = argsEnd + 1;
+      pattern.lastIndex = index;
+    }
+
+    return result + block.slice(index);
+  });
+}
+
+function shiftTag(tag: string, args: string[], skipMs: number, durationMs: number): string {
+  const original = `\\${tag}(${args.join(',')})`;
+  const values = args.map(Number);
+  const shift = (time: number) => formatNumber(Math.max(0, time - skipMs));
+
+  switch (tag) {
+    case 'fad': {
+      const [fadeIn, fadeOut] = values;
+      if (values.length !== 2 || fadeIn === undefined || fadeOut === undefined || values.some(isNaN)) {
+        return original;
+      }
+      // The fade-out counts back from the line's end, which does not move
+      if (skipMs >= fadeIn) {
+        return `\\fad(0,${formatNumber(fadeOut)})`;
+      }
+      // Same as \fade(255,0,255,0,in,duration-out,duration), shifted
+      return shiftTag('fade', ['255', '0', '255', '0', String(fadeIn), String(durationMs - fadeOut), String(durationMs)],
+        skipMs, durationMs);
+    }
+
+    case 'fade': {
+      const [a1, a2, a3, t1, t2, t3, t4] = values;
+      if (values.length !== 7 || values.some(isNaN) || a1 === undefined || a2 === undefined || a3 === undefined
+        || t1 === undefined || t2 === undefined || t3 === undefined || t4 === undefined) {
+        return original;
+      }
+      const alpha = fadeAlpha(skipMs, a1, a2, a3, t1, t2, t3, t4);
+      const startAlpha = skipMs > t1 ? alpha : a1;
+      const middleAlpha = skipMs > t3 ? alpha : a2;
+      return `\\fade(${Math.round(startAlpha)},${Math.round(middleAlpha)},${formatNumber(a3)},`
+        + `${shift(t1)},${shift(t2)},${shift(t3)},${shift(t4)})`;
+    }
+
+    case 'move': {
+      const [x1, y1, x2, y2, t1 = 0, t2 = 0] = values;
+      if ((values.length !== 4 && values.length !== 6) || values.some(isNaN)
+        || x1 === undefined || y1 === undefined || x2 === undefined || y2 === undefined) {
+        return original;
+      }
+      // Without times (or with both 0) the move spans the whole line
+      const timed = values.length === 6 && (t1 !== 0 || t2 !== 0);
+      const from = timed ? t1 : 0;
+      const to = timed ? t2 : durationMs;
+      const progress = to > from ? Math.min(1, Math.max(0, (skipMs - from) / (to - from))) : skipMs >= to ? 1 : 0;
+      const x = formatNumber(x1 + (x2 - x1) * progress);
+      const y = formatNumber(y1 + (y2 - y1) * progress);
+      const position = `${x},${y},${formatNumber(x2)},${formatNumber(y2)}`;
+      return timed ? `\\move(${position},${shift(t1)},${shift(t2)})` : `\\move(${position})`;
+    }
+
+    default: {
+      // \t(t1,t2,tags) or \t(t1,t2,accel,tags); other forms have no times
+      const [t1, t2] = values;
+      if (args.length < 3 || t1 === undefined || t2 === undefined || isNaN(t1) || isNaN(t2)) {
+        return original;
+      }
+      return `\\t(${[shift(t1), shift(t2), ...args.slice(2)].join(',')})`;
+    }
+  }
+}
+
+// Alpha of a \fade at `time`: a1 until t1, to a2 by t2, a2 until t3, to a3 by t4
+function fadeAlpha(time: number, a1: number, a2: number, a3: number, t1: number, t2: number, t3: number, t4: number): number {
+  const ramp = (from: number, to: number, rampStart: number, rampEnd: number) =>
+    rampEnd > rampStart ? from + (to - from) * (time - rampStart) / (rampEnd - rampStart) : to;
+
+  if (time <= t1) return a1;
+  if (time < t2) return ramp(a1, a2, t1, t2);
+  if (time <= t3) return a2;
+  if (time < t4) return ramp(a2, a3, t3, t4);
+  return a3;
+}
+
+function findClosingParen(text: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+}
+
+// Split "a,b,\tag(c,d)" on top-level commas
+function splitArguments(value: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      args.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  args.push(current.trim());
+  return args;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,71 @@
+import { parseAss } from './assParser';
+import { assToCues, formatSrt, formatWebVtt, toIso639_2 } from './captionWriter';
+import { parseLyrics } from './lyricsParser';
+
+function script(events: string[]): string {
+  return [
+    '[Script Info]',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events
+  ].join('\n');
+}
+
+describe('assToCues', () => {
+  it('keeps the visible text of Dialogue lines in start order', () => {
+    const document = parseAss(script([
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\k50}Hello\\N{\\k40}world',
+      'Dialogue: 1,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\bord4}Hello\\Nworld',
+      'Dialogue: 0,0:00:04.00,0:00:05.00,Default,,0,0,0,,{\\p1}m 0 0 l 10 10{\\p0}',
+      'Comment: 0,0:00:05.00,0:00:06.00,Default,,0,0,0,,note',
+      'Dialogue: 0,0:00:06.00,0:00:06.00,Default,,0,0,0,,empty',
+      'Dialogue: 0,0:00:00.50,0:00:00.80,Default,,0,0,0,,a\\hb  c'
+    ]));
+
+    expect(assToCues(document)).toEqual([
+      { start: 0.5, end: 0.8, text: 'a b c' },
+      { start: 1, end: 3, text: 'Hello\nworld' }
+    ]);
+  });
+});
+
+describe('formatWebVtt', () => {
+  it('writes the header, cue times and escaped text', () => {
+    expect(formatWebVtt([{ start: 1.5, end: 3723.04, text: '<b> & -->' }])).toBe(
+      'WEBVTT\n\n00:00:01.500 --> 01:02:03.040\n&lt;b&gt; &amp; --&gt;\n'
+    );
+  });
+});
+
+describe('formatSrt', () => {
+  it('numbers cues and uses comma separators', () => {
+    expect(formatSrt([
+      { start: 0, end: 1, text: 'a' },
+      { start: 2, end: 3.5, text: 'b\nc' }
+    ])).toBe('1\n00:00:00,000 --> 00:00:01,000\na\n\n2\n00:00:02,000 --> 00:00:03,500\nb\nc\n');
+  });
+});
+
+describe('round-trips', () => {
+  const cues = [
+    { start: 1, end: 2.5, text: 'Hello\nworld' },
+    { start: 3, end: 4.25, text: 'again' }
+  ];
+
+  it('reads written WebVTT back', () => {
+    expect(parseLyrics(formatWebVtt(cues), 'vtt')).toEqual(cues);
+  });
+
+  it('reads written SRT back', () => {
+    expect(parseLyrics(formatSrt(cues), 'srt')).toEqual(cues);
+  });
+});
+
+describe('toIso639_2', () => {
+  it('maps BCP 47 tags to three-letter codes', () => {
+    expect(toIso639_2('pt-BR')).toBe('por');
+    expect(toIso639_2('EN')).toBe('eng');
+    expect(toIso639_2('fil')).toBe('fil');
+    expect(toIso639_2('xx')).toBe('und');
+  });
+});
@@ -0,0 +1,108 @@
+import { AssDocument, stripOverrideTags } from './assParser';
+import { CaptionFormat } from '../types';
+
+/**
+ * Plain-text captions (WebVTT and SRT) converted from the Dialogue lines of
+ * an ASS script, for soft subtitle tracks and sidecar files.
+ */
+
+export interface CaptionCue {
+  // Seconds
+  start: number;
+  end: number;
+  // Lines of the cue joined with "\n"
+  text: string;
+}
+
+// ISO 639-2/B codes for the languages most lyrics come in; MP4 track metadata needs these
+const ISO_639_2: Record<string, string> = {
+  ar: 'ara', de: 'ger', el: 'gre', en: 'eng', es: 'spa', fi: 'fin', fr: 'fre', he: 'heb',
+  hi: 'hin', id: 'ind', it: 'ita', ja: 'jpn', ko: 'kor', nl: 'dut', no: 'nor', pl: 'pol',
+  pt: 'por', ru: 'rus', sv: 'swe', th: 'tha', tr: 'tur', uk: 'ukr', vi: 'vie', zh: 'chi'
+};
+
+/**
+ * Cues for every Dialogue line with visible text, in start order. Drawings
+ * are skipped, and copies of a line (e.g. an outline layer under the fill)
+ * become one cue.
+ */
+export function assToCues(document: AssDocument): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+  const seen = new Set<string>();
+
+  const events = document.events
+    .filter(event => event.type === 'Dialogue' && event.end > event.start)
+    .sort((a, b) => a.start - b.start || a.layer - b.layer);
+
+  for (const event of events) {
+    if (/\{[^}]*\\p[1-9]/.test(event.text)) {
+      continue;
+    }
+
+    const text = stripOverrideTags(event.text)
+      .replace(/\\N/g, '\n')
+      .replace(/\\[nh]/g, ' ')
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n');
+    const key = `${event.start}|${event.end}|${text}`;
+    if (text.length === 0 || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    cues.push({ start: event.start, end: event.end, text });
+  }
+
+  return cues;
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  return format === 'vtt' ? formatWebVtt(cues) : formatSrt(cues);
+}
+
+export function formatWebVtt(cues: CaptionCue[]): string {
+  const blocks = cues.map(cue =>
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${escapeVttText(cue.text)}`
+  );
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues.map((cue, i) =>
+    `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+}
+
+/**
+ * Three-letter code for MP4 language metadata from a BCP 47 tag ("pt-BR" -> "por").
+ * Three-letter tags are used as given; unknown languages become "und".
+ */
+export function toIso639_2(language: string): string {
+  const primary = language.split('-')[0]!.toLowerCase();
+  if (primary.length === 3) {
+    return primary;
+  }
+  return ISO_639_2[primary] || 'und';
+}
+
+// HH:MM:SS.mmm (WebVTT) or HH:MM:SS,mmm (SRT)
+function formatCueTime(seconds: number, separator: string): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+// Lyrics text must not be read as cue markup, and "-->" would end the cue
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
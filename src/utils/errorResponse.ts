@@ -0,0 +1,28 @@
+import { ProcessingError, ProcessVideoErrorResponse } from '../types';
+
+export function buildErrorResponse(error: unknown): ProcessVideoErrorResponse {
+  // Handle ProcessingError with detailed response
+  if (error instanceof ProcessingError) {
+    return {
+      status: 'failed',
+      error: {
+        code: error.code,
+        message: error.message,
+        details: error.details || 'No additional details available',
+        stage: error.stage,
+        ...(error.issues && { issues: error.issues })
+      }
+    };
+  }
+
+  // Handle unexpected errors
+  return {
+    status: 'failed',
+    error: {
+      code: 'INTERNAL_SERVER_ERROR' as any,
+      message: 'An unexpected error occurred during video processing',
+      details: (error as Error).message,
+      stage: 'unknown' as any
+    }
+  };
+}
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export const FONTS_DIR = path.join(process.cwd(), 'fonts');
+
+// name table IDs: family, full name, PostScript name, typographic family
+const FAMILY_NAME_IDS = new Set([1, 4, 6, 16]);
+
+let fontFamiliesPromise: Promise<Set<string>> | undefined;
+
+/**
+ * Lower-cased family names of the fonts in fonts/, read from each file's
+ * `name` table (so "CormorantGaramond-Italic.ttf" yields "cormorant garamond").
+ * Loaded once per process.
+ */
+export function getAvailableFontFamilies(): Promise<Set<string>> {
+  if (!fontFamiliesPromise) {
+    fontFamiliesPromise = loadFontFamilies(FONTS_DIR);
+  }
+  return fontFamiliesPromise;
+}
+
+export async function loadFontFamilies(fontsDir: string): Promise<Set<string>> {
+  const families = new Set<string>();
+  const files = await fs.readdir(fontsDir).catch(() => [] as string[]);
+
+  for (const file of files.filter(name => /\.(ttf|otf)$/i.test(name))) {
+    try {
+      const buffer = await fs.readFile(path.join(fontsDir, file));
+      for (const name of readFontNames(buffer)) {
+        families.add(name.toLowerCase());
+      }
+    } catch {
+      // Unreadable fonts are simply not offered
+    }
+  }
+
+  return families;
+}
+
+// Read the family-related entries of an sfnt (TrueType/OpenType) name table
+function readFontNames(buffer: Buffer): string[] {
+  const numTables = buffer.readUInt16BE(4);
+  let nameTableOffset = -1;
+
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    if (buffer.toString('latin1', record, record + 4) === 'name') {
+      nameTableOffset = buffer.readUInt32BE(record + 8);
+      break;
+    }
+  }
+  if (nameTableOffset === -1) {
+    return [];
+  }
+
+  const count = buffer.readUInt16BE(nameTableOffset + 2);
+  const stringOffset = nameTableOffset + buffer.readUInt16BE(nameTableOffset + 4);
+  const names: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const record = nameTableOffset + 6 + i * 12;
+    const platformId = buffer.readUInt16BE(record);
+    const nameId = buffer.readUInt16BE(record + 6);
+    const length = buffer.readUInt16BE(record + 8);
+    const offset = stringOffset + buffer.readUInt16BE(record + 10);
+
+    if (!FAMILY_NAME_IDS.has(nameId)) {
+      continue;
+    }
+
+    const bytes = buffer.subarray(offset, offset + length);
+    if (platformId === 0 || platformId === 3) {
+      // UTF-16BE
+      names.push(Buffer.from(bytes).swap16().toString('utf16le'));
+    } else if (platformId === 1) {
+      names.push(bytes.toString('latin1'));
+    }
+  }
+
+  return names;
+}
@@ -1,4 +1,5 @@
 import winston from 'winston';
+import { publishProcessEvent } from './processEvents';
 
 const logLevel = process.env.LOG_LEVEL || 'info';
 
@@ -65,6 +66,13 @@ export class ProcessLogger {
     } else {
       this.info(message, meta);
     }
+
+    publishProcessEvent(this.processId, {
+      type: 'step',
+      step: stage,
+      action,
+      ...(meta ? { details: meta } : {})
+    });
   }
 
   logTiming(stage: string, startTime: number, meta?: any) {
@@ -0,0 +1,139 @@
+import { LyricsParseError, parseJsonLyrics, parseLyrics } from './lyricsParser';
+
+describe('parseLyrics', () => {
+  describe('lrc', () => {
+    it('applies the offset tag, repeats lines and skips metadata', () => {
+      const lrc = [
+        '[ar:Artist]',
+        '[offset:+500]',
+        '[00:10.00][01:00.00]Chorus',
+        '[00:20.50]Verse',
+        '[00:25.00]'
+      ].join('\n');
+
+      expect(parseLyrics(lrc, 'lrc')).toEqual([
+        { start: 9.5, end: 17.5, text: 'Chorus' },
+        { start: 20, end: 24.5, text: 'Verse' },
+        { start: 59.5, end: 63.5, text: 'Chorus' }
+      ]);
+    });
+
+    it('reads enhanced word stamps and holds the last word until the line ends', () => {
+      const lrc = '[00:01.00]<00:01.00>Hel<00:01.50>lo <00:02.00>world\n[00:04.00]Next';
+
+      expect(parseLyrics(lrc, 'lrc')[0]).toEqual({
+        start: 1,
+        end: 4,
+        text: 'Hello world',
+        words: [
+          { text: 'Hel', start: 1, end: 1.5 },
+          { text: 'lo ', start: 1.5, end: 2 },
+          { text: 'world', start: 2, end: 4 }
+        ]
+      });
+    });
+
+    it('rejects invalid word stamps and input without timed lines', () => {
+      expect(() => parseLyrics('[00:01.00]a<xx>b', 'lrc')).toThrow('line 1: invalid word timestamp "xx"');
+      expect(() => parseLyrics('﻿[ar:Artist]', 'lrc')).toThrow('no timed lyrics found in LRC input');
+    });
+  });
+
+  describe('srt', () => {
+    it('reads multi-line cues and drops markup', () => {
+      const srt = [
+        '1',
+        '00:00:01,000 --> 00:00:02,500',
+        '<i>First</i> line',
+        'second',
+        '',
+        '2',
+        '00:00:03,000 --> 00:00:04,000',
+        'Third'
+      ].join('\r\n');
+
+      expect(parseLyrics(srt, 'srt')).toEqual([
+        { start: 1, end: 2.5, text: 'First line\nsecond' },
+        { start: 3, end: 4, text: 'Third' }
+      ]);
+    });
+
+    it('reports bad cue timings with the line number', () => {
+      expect(() => parseLyrics('1\n00:00:01 --> 00:00:02\nx', 'srt'))
+        .toThrow(new LyricsParseError('invalid cue timing "00:00:01 --> 00:00:02"', 2));
+      expect(() => parseLyrics('1\nx', 'srt')).toThrow('line 1: cue has no "start --> end" timing line');
+    });
+  });
+
+  describe('vtt', () => {
+    it('skips non-cue blocks and reads karaoke word stamps', () => {
+      const vtt = [
+        'WEBVTT',
+        '',
+        'NOTE a comment',
+        '',
+        '00:01.000 --> 00:03.000 align:center',
+        '<v Singer><00:01.000>Hel<00:01.500>lo <00:02.000>world</v>'
+      ].join('\n');
+
+      expect(parseLyrics(vtt, 'vtt')).toEqual([{
+        start: 1,
+        end: 3,
+        text: 'Hello world',
+        words: [
+          { text: 'Hel', start: 1, end: 1.5 },
+          { text: 'lo ', start: 1.5, end: 2 },
+          { text: 'world', start: 2, end: 3 }
+        ]
+      }]);
+    });
+
+    it('requires the WEBVTT header', () => {
+      expect(() => parseLyrics('00:01.000 --> 00:02.000\nx', 'vtt'))
+        .toThrow('line 1: WebVTT input must start with "WEBVTT"');
+    });
+  });
+
+  describe('json', () => {
+    it('joins timed words and takes line times from them', () => {
+      const json = JSON.stringify({
+        lines: [
+          { text: 'spoken', start: 3, end: 4 },
+          {
+            words: [
+              { text: 'Hel-', start: 1, end: 1.2 },
+              { text: 'lo', start: 1.2, end: 1.5 },
+              { text: 'there', start: 1.6, end: 2 }
+            ]
+          }
+        ]
+      });
+
+      expect(parseLyrics(json, 'json')).toEqual([
+        {
+          start: 1,
+          end: 2,
+          text: 'Hel-lo there',
+          words: [
+            { text: 'Hel-', start: 1, end: 1.2 },
+            { text: 'lo ', start: 1.2, end: 1.5 },
+            { text: 'there', start: 1.6, end: 2 }
+          ]
+        },
+        { start: 3, end: 4, text: 'spoken' }
+      ]);
+    });
+
+    it('rejects malformed JSON and lines', () => {
+      expect(() => parseLyrics('{', 'json')).toThrow(/^invalid JSON/);
+      expect(() => parseJsonLyrics({})).toThrow('JSON lyrics must be an array of lines or an object with a "lines" array');
+      expect(() => parseJsonLyrics([null])).toThrow('lines[0] must be an object');
+      expect(() => parseJsonLyrics([{ words: 'a b', start: 0, end: 1 }])).toThrow('lines[0].words must be an array');
+      expect(() => parseJsonLyrics([{ text: 5, start: 0, end: 1 }])).toThrow('lines[0].text must be a string');
+      expect(() => parseJsonLyrics([{ words: [{ text: 'a', start: 2, end: 1 }] }]))
+        .toThrow('lines[0].words[0] needs text and start <= end in seconds');
+      expect(() => parseJsonLyrics([{ text: 'x', start: 2, end: 1 }]))
+        .toThrow('lines[0] needs start < end in seconds (or timed words)');
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import { LyricsFormat, LyricsLineTiming, LyricsWordTiming } from '../types';
+
+/**
+ * Parsers for timed lyrics (LRC, SRT, WebVTT and word-level JSON) into one
+ * line/word timing model that the ASS generator consumes.
+ */
+
+export interface TimedLyricLine {
+  // Seconds
+  start: number;
+  end: number;
+  // Plain text; lines of a multi-line cue are joined with "\n"
+  text: string;
+  // Word timings when the source has them (enhanced LRC, VTT karaoke, JSON)
+  words?: LyricsWordTiming[];
+}
+
+export class LyricsParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(line !== undefined ? `line ${line}: ${message}` : message);
+    this.name = 'LyricsParseError';
+  }
+}
+
+// LRC only has start times; a line ends at the next one, but is not held longer than this
+const LRC_MAX_LINE_DURATION = 8;
+
+export function parseLyrics(content: string, format: LyricsFormat): TimedLyricLine[] {
+  const text = content.replace(/^\uFEFF/, '');
+  let lines: TimedLyricLine[];
+
+  switch (format) {
+    case 'lrc':
+      lines = parseLrc(text);
+      break;
+    case 'srt':
+      lines = parseSrt(text);
+      break;
+    case 'vtt':
+      lines = parseVtt(text);
+      break;
+    case 'json':
+      lines = parseJsonLyrics(parseJson(text));
+      break;
+  }
+
+  if (lines.length === 0) {
+    throw new LyricsParseError(`no timed lyrics found in ${format.toUpperCase()} input`);
+  }
+  return lines.sort((a, b) => a.start - b.start);
+}
+
+// [mm:ss.xx] or [hh:mm:ss.xx] (LRC) and <mm:ss.xx> word stamps (enhanced LRC)
+function parseLrcTime(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/);
+  if (!match) {
+    return null;
+  }
+  const fraction = match[4] ? parseInt(match[4], 10) / Math.pow(10, match[4].length) : 0;
+  return parseInt(match[1] || '0', 10) * 3600 + parseInt(match[2]!, 10) * 60 + parseInt(match[3]!, 10) + fraction;
+}
+
+function parseLrc(content: string): TimedLyricLine[] {
+  const starts: { start: number; text: string; lineNumber: number }[] = [];
+  let offset = 0;
+
+  content.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    const offsetTag = line.match(/^\[offset:\s*([+-]?\d+)\s*\]$/i);
+    if (offsetTag) {
+      // Positive offsets make lyrics appear sooner
+      offset = -parseInt(offsetTag[1]!, 10) / 1000;
+      return;
+    }
+
+    // A line may repeat for several timestamps: [00:12.00][01:40.00]Chorus
+    const times: number[] = [];
+    let rest = line;
+    let tag: RegExpMatchArray | null;
+    while ((tag = rest.match(/^\[([^\]]*)\]/))) {
+      const time = parseLrcTime(tag[1]!.trim());
+      if (time === null) {
+        // Metadata tag such as [ar:Artist]
+        return;
+      }
+      times.push(time);
+      rest = rest.slice(tag[0].length);
+    }
+
+    for (const time of times) {
+      starts.push({ start: time, text: rest.trim(), lineNumber: i + 1 });
+    }
+  });
+
+  starts.sort((a, b) => a.start - b.start);
+
+  const lines: TimedLyricLine[] = [];
+  starts.forEach((entry, i) => {
+    // Empty lines only mark where the previous line ends
+    if (entry.text.length === 0) {
+      return;
+    }
+
+    const start = entry.start + offset;
+    const next = starts[i + 1];
+    const words = parseInlineWordTimes(entry.text, start, offset, /<([^>]+)>/g, entry.lineNumber);
+    const wordsEnd = words?.[words.length - 1]?.end ?? start;
+    const end = next
+      ? Math.min(next.start + offset, Math.max(start + LRC_MAX_LINE_DURATION, wordsEnd))
+      : Math.max(start + LRC_MAX_LINE_DURATION / 2, wordsEnd);
+
+    lines.push({
+      start: Math.max(0, start),
+      end,
+      text: words ? words.map(word => word.text).join('').trim() : entry.text,
+      ...(words && { words: closeLastWord(words, end) })
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Split text with inline timestamps ("<00:01.20>Hel<00:01.50>lo") into words.
+ * Each word runs until the next stamp; the last one until the line ends.
+ * Returns undefined when the text has no stamps.
+ */
+function parseInlineWordTimes(
+  text: string,
+  lineStart: number,
+  offset: number,
+  pattern: RegExp,
+  lineNumber: number,
+  parseTime: (value: string) => number | null = parseLrcTime
+): LyricsWordTiming[] | undefined {
+  const parts = text.split(pattern);
+  if (parts.length === 1) {
+    return undefined;
+  }
+
+  const words: LyricsWordTiming[] = [];
+  let time = lineStart;
+  if (parts[0]!.length > 0) {
+    words.push({ text: parts[0]!, start: time, end: time });
+  }
+  for (let i = 1; i < parts.length; i += 2) {
+    const stamp = parseTime(parts[i]!.trim());
+    if (stamp === null) {
+      throw new LyricsParseError(`invalid word timestamp "${parts[i]}"`, lineNumber);
+    }
+    time = stamp + offset;
+    const last = words[words.length - 1];
+    if (last) {
+      last.end = time;
+    }
+    if (parts[i + 1]) {
+      words.push({ text: parts[i + 1]!, start: time, end: time });
+    }
+  }
+
+  return words.length > 0 ? words : undefined;
+}
+
+// The last word has no closing stamp of its own
+function closeLastWord(words: LyricsWordTiming[], lineEnd: number): LyricsWordTiming[] {
+  const last = words[words.length - 1]!;
+  if (last.end <= last.start) {
+    last.end = Math.max(last.start, lineEnd);
+  }
+  return words;
+}
+
+// 00:00:01,500 (SRT) or 00:01.500 / 00:00:01.500 (WebVTT)
+function parseCueTime(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1] || '0', 10) * 3600 + parseInt(match[2]!, 10) * 60 +
+    parseInt(match[3]!, 10) + parseInt(match[4]!, 10) / Math.pow(10, match[4]!.length);
+}
+
+interface CueBlock {
+  start: number;
+  end: number;
+  textLines: string[];
+  lineNumber: number;
+}
+
+// Shared SRT/WebVTT cue reader: blank-line separated blocks with a "start --> end" line
+function parseCueBlocks(content: string, skipBlock: (firstLine: string) => boolean): CueBlock[] {
+  const cues: CueBlock[] = [];
+  const lines = content.split(/\r?\n/);
+  let i = 0;
+
+  while (i < lines.length) {
+    while (i < lines.length && lines[i]!.trim() === '') {
+      i++;
+    }
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i]!.trim() !== '') {
+      block.push(lines[i]!);
+      i++;
+    }
+    if (block.length === 0 || skipBlock(block[0]!.trim())) {
+      continue;
+    }
+
+    const timingIndex = block.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) {
+      throw new LyricsParseError('cue has no "start --> end" timing line', blockStart + 1);
+    }
+
+    const [startText, endText] = block[timingIndex]!.split('-->').map(part => part.trim().split(/\s+/)[0] || '');
+    const start = parseCueTime(startText!);
+    const end = parseCueTime(endText!);
+    if (start === null || end === null) {
+      throw new LyricsParseError(`invalid cue timing "${block[timingIndex]!.trim()}"`, blockStart + timingIndex + 1);
+    }
+
+    cues.push({ start, end, textLines: block.slice(timingIndex + 1), lineNumber: blockStart + timingIndex + 1 });
+  }
+
+  return cues;
+}
+
+// Drop formatting markup such as <i>, <font color=...>, <c.yellow> and <v Singer>
+function stripMarkup(text: string): string {
+  return text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '');
+}
+
+function parseSrt(content: string): TimedLyricLine[] {
+  return parseCueBlocks(content, () => false)
+    .map(cue => ({
+      start: cue.start,
+      end: cue.end,
+      text: cue.textLines.map(line => stripMarkup(line).trim()).join('\n').trim()
+    }))
+    .filter(line => line.text.length > 0);
+}
+
+function parseVtt(content: string): TimedLyricLine[] {
+  if (!/^WEBVTT/.test(content)) {
+    throw new LyricsParseError('WebVTT input must start with "WEBVTT"', 1);
+  }
+
+  const isNonCueBlock = (firstLine: string) =>
+    /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(firstLine);
+
+  return parseCueBlocks(content, isNonCueBlock)
+    .map(cue => {
+      // Karaoke-style cues carry word timestamps: <00:00:01.500>word
+      const rawText = cue.textLines.join('\n').replace(/<\/?(?:c|v|b|i|u|ruby|rt|lang)(?:[.\s][^>]*)?>/g, '');
+      const words = parseInlineWordTimes(rawText, cue.start, 0, /<(\d[\d:.]*)>/g, cue.lineNumber, parseCueTime);
+      const text = stripMarkup(rawText).trim();
+
+      return {
+        start: cue.start,
+        end: cue.end,
+        text,
+        ...(words && { words: closeLastWord(words, cue.end) })
+      };
+    })
+    .filter(line => line.text.length > 0);
+}
+
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new LyricsParseError(`invalid JSON: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Word-level JSON: an array of lines, or { "lines": [...] }. Each line has
+ * `words` ({ text, start, end }) and/or `text` with `start`/`end`.
+ */
+export function parseJsonLyrics(data: unknown): TimedLyricLine[] {
+  const rawLines = Array.isArray(data)
+    ? data
+    : (data as { lines?: unknown })?.lines;
+  if (!Array.isArray(rawLines)) {
+    throw new LyricsParseError('JSON lyrics must be an array of lines or an object with a "lines" array');
+  }
+
+  return rawLines.map((rawLine: LyricsLineTiming, i) => {
+    const where = `lines[${i}]`;
+    if (typeof rawLine !== 'object' || rawLine === null) {
+      throw new LyricsParseError(`${where} must be an object`);
+    }
+    if (rawLine.words !== undefined && !Array.isArray(rawLine.words)) {
+      throw new LyricsParseError(`${where}.words must be an array`);
+    }
+    if (rawLine.text !== undefined && typeof rawLine.text !== 'string') {
+      throw new LyricsParseError(`${where}.text must be a string`);
+    }
+
+    const words = rawLine.words?.map((word, j, all) => {
+      if (typeof word?.text !== 'string' || !isTime(word.start) || !isTime(word.end) || word.end < word.start) {
+        throw new LyricsParseError(`${where}.words[${j}] needs text and start <= end in seconds`);
+      }
+      // Words are separate entries; keep a space between them as in the other formats
+      const text = j < all.length - 1 && !/[\s-]$/.test(word.text) ? `${word.text} ` : word.text;
+      return { text, start: word.start, end: word.end };
+    });
+
+    const start = rawLine.start ?? words?.[0]?.start;
+    const end = rawLine.end ?? words?.[words.length - 1]?.end;
+    if (!isTime(start) || !isTime(end) || end <= start) {
+      throw new LyricsParseError(`${where} needs start < end in seconds (or timed words)`);
+    }
+
+    const text = rawLine.text ?? words?.map(word => word.text).join('') ?? '';
+    return {
+      start,
+      end,
+      text: text.trim(),
+      ...(words && words.length > 0 && { words })
+    };
+  }).filter(line => line.text.length > 0);
+}
+
+function isTime(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,56 @@
+import {
+  AspectRatioConfig,
+  ASPECT_RATIO_CONFIGS,
+  OutputAspectRatio,
+  OutputResolution,
+  RESOLUTION_SCALES
+} from '../types';
+
+// Longest side of generated thumbnails
+const THUMBNAIL_MAX_DIMENSION = 1280;
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Output frame size for a request: an explicit outputSize wins, otherwise
+ * the aspect ratio's base size scaled to the requested resolution tier.
+ */
+export function resolveOutputDimensions(spec: {
+  aspectRatio: OutputAspectRatio;
+  resolution?: OutputResolution | undefined;
+  outputSize?: AspectRatioConfig | undefined;
+}): AspectRatioConfig {
+  if (spec.outputSize) {
+    return { width: spec.outputSize.width, height: spec.outputSize.height };
+  }
+
+  const base = ASPECT_RATIO_CONFIGS[spec.aspectRatio]!;
+  const scale = RESOLUTION_SCALES[spec.resolution || '1080p'];
+
+  return {
+    width: toEven(base.width * scale),
+    height: toEven(base.height * scale)
+  };
+}
+
+/**
+ * Thumbnail size with the same shape as the output, capped at
+ * THUMBNAIL_MAX_DIMENSION on its longest side.
+ */
+export function getThumbnailDimensions({ width, height }: AspectRatioConfig): AspectRatioConfig {
+  const scale = Math.min(1, THUMBNAIL_MAX_DIMENSION / Math.max(width, height));
+
+  return {
+    width: toEven(width * scale),
+    height: toEven(height * scale)
+  };
+}
+
+/**
+ * Lowest common H.264 level that fits the frame size: 4.1 covers up to
+ * 1080p-class frames (8192 macroblocks), 5.1 covers 4K.
+ */
+export function getH264Level({ width, height }: AspectRatioConfig): string {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  return macroblocks <= 8192 ? '4.1' : '5.1';
+}
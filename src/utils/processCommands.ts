@@ -0,0 +1,42 @@
+export interface KillableCommand {
+  kill(signal: NodeJS.Signals): unknown;
+}
+
+// Child processes (FFmpeg runs) started on behalf of each process, so
+// shutdown can stop whatever a job still has running
+const commands = new Map<string, Set<KillableCommand>>();
+
+export function trackProcessCommand(processId: string, command: KillableCommand): () => void {
+  const tracked = commands.get(processId) || new Set<KillableCommand>();
+  tracked.add(command);
+  commands.set(processId, tracked);
+
+  return () => {
+    tracked.delete(command);
+    if (tracked.size === 0 && commands.get(processId) === tracked) {
+      commands.delete(processId);
+    }
+  };
+}
+
+/**
+ * Send a signal to every command still running for the process.
+ * Returns the number of commands signalled.
+ */
+export function killProcessCommands(processId: string, signal: NodeJS.Signals = 'SIGKILL'): number {
+  const tracked = commands.get(processId);
+  if (!tracked) {
+    return 0;
+  }
+
+  commands.delete(processId);
+  for (const command of tracked) {
+    try {
+      command.kill(signal);
+    } catch {
+      // The process already exited
+    }
+  }
+
+  return tracked.size;
+}
@@ -0,0 +1,21 @@
+import { EventEmitter } from 'events';
+import { ProcessingEvent } from '../types';
+
+// Process-scoped event bus. Services publish under their processId and
+// listeners (e.g. the job manager) subscribe to the processes they track.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishProcessEvent(processId: string, event: ProcessingEvent): void {
+  emitter.emit(processId, event);
+}
+
+export function subscribeToProcessEvents(
+  processId: string,
+  listener: (event: ProcessingEvent) => void
+): () => void {
+  emitter.on(processId, listener);
+  return () => {
+    emitter.off(processId, listener);
+  };
+}
@@ -0,0 +1,32 @@
+import { ProcessVideoRequest, VideoClip } from '../types';
+
+/**
+ * The clips a timeline is built from: the request's video clips, then the
+ * branding intro and outro cards when given. Timeline segments, probe results
+ * and downloaded clip files all index into this list, so the video clips keep
+ * their request positions.
+ */
+export function getTimelineClips(request: ProcessVideoRequest): VideoClip[] {
+  const { intro, outro } = request.branding || {};
+  return [...request.videoClips, ...(intro ? [intro] : []), ...(outro ? [outro] : [])];
+}
+
+// Name of a timeline clip for logs, errors and probe issues ("video clip 2", "intro card")
+export function describeTimelineClip(request: ProcessVideoRequest, clipIndex: number): string {
+  const clipCount = request.videoClips.length;
+  if (clipIndex < clipCount) {
+    return `video clip ${clipIndex + 1}`;
+  }
+  return clipIndex === clipCount && request.branding?.intro ? 'intro card' : 'outro card';
+}
+
+// Positions of the intro and outro cards in the timeline clips
+export function getCardIndexes(request: ProcessVideoRequest): { intro?: number; outro?: number } {
+  const clipCount = request.videoClips.length;
+  const { intro, outro } = request.branding || {};
+
+  return {
+    ...(intro && { intro: clipCount }),
+    ...(outro && { outro: clipCount + (intro ? 1 : 0) })
+  };
+}
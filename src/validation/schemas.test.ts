@@ -0,0 +1,161 @@
+import { validateProcessVideoRequest } from './schemas';
+
+const request = {
+  videoClips: [{ url: 'https://example.com/clip.mp4', duration: 8 }],
+  assFile: { url: 'https://example.com/lyrics.ass' },
+  songUrl: 'https://example.com/song.mp3',
+  songId: 'song-1',
+  outputAspectRatio: '9:16'
+};
+
+describe('validateProcessVideoRequest', () => {
+  it('accepts a minimal request and applies defaults', () => {
+    expect(validateProcessVideoRequest(request)).toMatchObject({
+      transitionDuration: 0.5,
+      compressionLevel: 'high',
+      audioBitrate: 96
+    });
+  });
+
+  describe('callbackUrl', () => {
+    beforeEach(() => {
+      process.env.WEBHOOK_SECRET = 'test-secret';
+    });
+
+    afterEach(() => {
+      delete process.env.WEBHOOK_SECRET;
+    });
+
+    it('accepts an HTTPS callback URL', () => {
+      const callbackUrl = 'https://example.com/hook';
+      expect(validateProcessVideoRequest({ ...request, callbackUrl })).toMatchObject({ callbackUrl });
+    });
+
+    it('rejects plain HTTP callback URLs', () => {
+      expect(() => validateProcessVideoRequest({ ...request, callbackUrl: 'http://example.com/hook' }))
+        .toThrow('Callback URL must be a valid HTTPS URL');
+    });
+
+    it('rejects callback URLs when WEBHOOK_SECRET is not configured', () => {
+      delete process.env.WEBHOOK_SECRET;
+
+      expect(() => validateProcessVideoRequest({ ...request, callbackUrl: 'https://example.com/hook' }))
+        .toThrow('WEBHOOK_SECRET is not configured');
+    });
+  });
+
+  describe('videoClips[].transition', () => {
+    it('accepts xfade transitions and cuts', () => {
+      const videoClips = [
+        { url: 'https://example.com/a.mp4', duration: 8, transition: { type: 'wipeleft', duration: 1 } },
+        { url: 'https://example.com/b.mp4', duration: 8, transition: { type: 'cut' } },
+        { url: 'https://example.com/c.mp4', duration: 8 }
+      ];
+
+      expect(validateProcessVideoRequest({ ...request, videoClips }).videoClips).toMatchObject(videoClips);
+    });
+
+    it('rejects unknown transition types', () => {
+      const videoClips = [{ url: 'https://example.com/a.mp4', transition: { type: 'spin' } }];
+
+      expect(() => validateProcessVideoRequest({ ...request, videoClips }))
+        .toThrow('Transition type must be "cut" or one of');
+    });
+
+    it('rejects out of range transition durations', () => {
+      const videoClips = [{ url: 'https://example.com/a.mp4', transition: { type: 'fade', duration: 6 } }];
+
+      expect(() => validateProcessVideoRequest({ ...request, videoClips }))
+        .toThrow('Transition duration must be between 0.1 and 5.0 seconds');
+    });
+  });
+
+  describe('beat sync', () => {
+    it('defaults to no beat sync snapping to beats', () => {
+      expect(validateProcessVideoRequest(request)).toMatchObject({ syncToBeat: false, beatSnap: 'beat' });
+    });
+
+    it('rejects unknown snap targets', () => {
+      expect(() => validateProcessVideoRequest({ ...request, syncToBeat: true, beatSnap: 'measure' }))
+        .toThrow('Beat snap must be either "beat" or "bar"');
+    });
+  });
+
+  it('rejects unknown fill strategies', () => {
+    expect(() => validateProcessVideoRequest({ ...request, fillStrategy: 'repeat' }))
+      .toThrow('Fill strategy must be one of: loop, freeze, stretch, fail');
+  });
+
+  describe('videoClips[] in/out points and speed', () => {
+    it('defaults to the start of the clip at normal speed', () => {
+      expect(validateProcessVideoRequest(request).videoClips[0]).toMatchObject({ startTime: 0, speed: 1 });
+    });
+
+    it('rejects an end time that is not after the start time', () => {
+      const videoClips = [{ url: 'https://example.com/a.mp4', startTime: 4, endTime: 4 }];
+
+      expect(() => validateProcessVideoRequest({ ...request, videoClips }))
+        .toThrow('Video clip end time must be after its start time');
+    });
+
+    it('rejects out of range speeds', () => {
+      const videoClips = [{ url: 'https://example.com/a.mp4', speed: 8 }];
+
+      expect(() => validateProcessVideoRequest({ ...request, videoClips }))
+        .toThrow('Video clip speed must be between 0.25 and 4');
+    });
+  });
+
+  describe('subtitles', () => {
+    const { assFile, ...withoutSubtitles } = request;
+    const lyrics = { format: 'lrc', content: '[00:01.00]Hello' };
+
+    it('accepts lyrics instead of an assFile and applies their defaults', () => {
+      expect(validateProcessVideoRequest({ ...withoutSubtitles, lyrics }).lyrics)
+        .toEqual({ ...lyrics, preset: 'playful', karaoke: true });
+    });
+
+    it('requires either an assFile or lyrics, but not both', () => {
+      expect(() => validateProcessVideoRequest(withoutSubtitles))
+        .toThrow('Must provide either assFile or lyrics, unless every output has its own assFile');
+      expect(() => validateProcessVideoRequest({ ...request, lyrics }))
+        .toThrow('Provide either assFile or lyrics, not both');
+    });
+
+    it('accepts per-output assFiles only when every output has one', () => {
+      const outputs = [
+        { aspectRatio: '9:16', assFile },
+        { aspectRatio: '16:9', assFile }
+      ];
+      const { outputAspectRatio, ...withoutAspectRatio } = withoutSubtitles;
+
+      expect(() => validateProcessVideoRequest({ ...withoutAspectRatio, outputs })).not.toThrow();
+      expect(() => validateProcessVideoRequest({ ...withoutAspectRatio, outputs: [outputs[0], { aspectRatio: '16:9' }] }))
+        .toThrow('Must provide either assFile or lyrics');
+    });
+
+    it('needs exactly one lyrics source', () => {
+      expect(() => validateProcessVideoRequest({ ...withoutSubtitles, lyrics: { format: 'lrc' } }))
+        .toThrow('Lyrics need one of url, content or lines');
+      expect(() => validateProcessVideoRequest({
+        ...withoutSubtitles,
+        lyrics: { ...lyrics, url: 'https://example.com/lyrics.lrc' }
+      })).toThrow('Lyrics accept only one of url, content or lines');
+    });
+
+    it('only accepts inline lines for the json format', () => {
+      const lines = [{ text: 'Hello', start: 1, end: 2 }];
+
+      expect(() => validateProcessVideoRequest({ ...withoutSubtitles, lyrics: { format: 'json', lines } })).not.toThrow();
+      expect(() => validateProcessVideoRequest({ ...withoutSubtitles, lyrics: { format: 'lrc', lines } }))
+        .toThrow('Inline lyrics lines are only supported for the json format');
+    });
+
+    it('rejects words that end before they start', () => {
+      const lines = [{ words: [{ text: 'Hello', start: 2, end: 1 }] }];
+
+      expect(() => validateProcessVideoRequest({ ...withoutSubtitles, lyrics: { format: 'json', lines } }))
+        .toThrow('Word end time must not be before its start time');
+    });
+  });
+});
@@ -1,10 +1,127 @@
 import Joi from 'joi';
+import {
+  CAPTION_FORMATS,
+  CLIP_TYPES,
+  LOGO_POSITIONS,
+  MAX_OUTPUT_DIMENSION,
+  MAX_OUTPUT_PIXELS,
+  MIN_OUTPUT_DIMENSION,
+  LYRICS_FORMATS,
+  PUBLISH_TARGETS,
+  SUBTITLE_PRESETS,
+  VISUALIZER_STYLES,
+  XFADE_TRANSITIONS
+} from '../types';
+
+const FIT_MODES = ['stretch', 'cover', 'contain', 'blur-fill'];
+
+const fitModeSchema = Joi.string()
+  .valid(...FIT_MODES)
+  .messages({ 'any.only': `Fit mode must be one of: ${FIT_MODES.join(', ')}` });
+
+const colorSchema = Joi.string()
+  .pattern(/^(#[0-9a-fA-F]{6}|[a-zA-Z]+)$/)
+  .messages({ 'string.pattern.base': 'Color must be a #RRGGBB hex value or a color name' });
+
+const transitionSchema = Joi.object({
+  type: Joi.string()
+    .valid(...XFADE_TRANSITIONS, 'cut')
+    .required()
+    .messages({ 'any.only': `Transition type must be "cut" or one of: ${XFADE_TRANSITIONS.join(', ')}` }),
+  duration: Joi.number()
+    .min(0.1)
+    .max(5.0)
+    .optional()
+    .messages({
+      'number.min': 'Transition duration must be between 0.1 and 5.0 seconds',
+      'number.max': 'Transition duration must be between 0.1 and 5.0 seconds'
+    })
+});
+
+const volumeSchema = (name: string) => Joi.number()
+  .min(0)
+  .max(4)
+  .default(1)
+  .messages({
+    'number.min': `${name} must be between 0 and 4`,
+    'number.max': `${name} must be between 0 and 4`
+  });
+
+const shareSchema = (name: string) => Joi.number()
+  .min(0)
+  .max(1)
+  .messages({
+    'number.min': `${name} must be between 0 and 1`,
+    'number.max': `${name} must be between 0 and 1`
+  });
+
+const zoomSchema = (name: string) => Joi.number()
+  .min(1)
+  .max(4)
+  .messages({
+    'number.min': `${name} must be between 1 and 4`,
+    'number.max': `${name} must be between 1 and 4`
+  });
+
+const kenBurnsSchema = Joi.object({
+  startZoom: zoomSchema('Ken Burns start zoom').default(1),
+  endZoom: zoomSchema('Ken Burns end zoom').default(1.2),
+  startX: shareSchema('Ken Burns start x').default(0.5),
+  startY: shareSchema('Ken Burns start y').default(0.5),
+  endX: shareSchema('Ken Burns end x').default(Joi.ref('startX')),
+  endY: shareSchema('Ken Burns end y').default(Joi.ref('startY'))
+});
+
+// Options that only make sense for footage are rejected on image clips
+const videoOnly = (schema: Joi.Schema) => schema
+  .when('type', { is: 'image', then: Joi.forbidden() })
+  .messages({ 'any.unknown': 'Image clips do not accept {#key}' });
 
 const videoClipSchema = Joi.object({
+  type: Joi.string()
+    .valid(...CLIP_TYPES)
+    .default('video')
+    .messages({ 'any.only': `Clip type must be one of: ${CLIP_TYPES.join(', ')}` }),
   url: Joi.string().uri().required()
-    .pattern(/^https:\/\/.*\.(mp4|mov|avi|mkv)$/, 'Video clip URL must be a valid HTTPS URL pointing to a video file'),
+    .when('type', {
+      is: 'image',
+      then: Joi.string().pattern(/^https:\/\/.*\.(jpe?g|png|webp)$/i, 'Image clip URL must be a valid HTTPS URL pointing to a jpg, png or webp image'),
+      otherwise: Joi.string().pattern(/^https:\/\/.*\.(mp4|mov|avi|mkv)$/, 'Video clip URL must be a valid HTTPS URL pointing to a video file')
+    }),
   duration: Joi.number().min(1).max(60).default(8)
-    .messages({ 'number.min': 'Video clip duration must be between 1 and 60 seconds', 'number.max': 'Video clip duration must be between 1 and 60 seconds' })
+    .messages({ 'number.min': 'Video clip duration must be between 1 and 60 seconds', 'number.max': 'Video clip duration must be between 1 and 60 seconds' }),
+  startTime: videoOnly(Joi.number().min(0).default(0)
+    .messages({ 'number.min': 'Video clip start time cannot be negative' })),
+  endTime: videoOnly(Joi.number().greater(Joi.ref('startTime')).optional()
+    .messages({ 'number.greater': 'Video clip end time must be after its start time' })),
+  speed: videoOnly(Joi.number().min(0.25).max(4).default(1)
+    .messages({ 'number.min': 'Video clip speed must be between 0.25 and 4', 'number.max': 'Video clip speed must be between 0.25 and 4' })),
+  fitMode: fitModeSchema.optional(),
+  backgroundColor: colorSchema.optional(),
+  transition: transitionSchema.optional(),
+  keepAudio: videoOnly(Joi.boolean().default(false)),
+  audioVolume: videoOnly(volumeSchema('Clip audio volume')),
+  kenBurns: kenBurnsSchema.when('type', { is: 'image', otherwise: Joi.forbidden() })
+    .messages({ 'any.unknown': 'kenBurns is only supported on image clips' })
+});
+
+const voiceOverSchema = Joi.object({
+  url: Joi.string().uri().required()
+    .pattern(/^https:\/\/.*\.(mp3|wav|aac|m4a)$/, 'Voice-over URL must be a valid HTTPS URL pointing to an audio file'),
+  startTime: Joi.number().min(0).default(0)
+    .messages({ 'number.min': 'Voice-over start time cannot be negative' }),
+  volume: volumeSchema('Voice-over volume')
+});
+
+const audioMixSchema = Joi.object({
+  musicVolume: volumeSchema('Music volume'),
+  ducking: Joi.boolean().default(true),
+  normalizeLoudness: Joi.boolean().default(true),
+  loudnessTarget: Joi.number().min(-70).max(-5)
+    .messages({
+      'number.min': 'Loudness target must be between -70 and -5 LUFS',
+      'number.max': 'Loudness target must be between -70 and -5 LUFS'
+    })
 });
 
 const assFileSchema = Joi.object({
@@ -12,6 +129,165 @@ const assFileSchema = Joi.object({
     .pattern(/^https:\/\/.*\.ass$/, 'ASS file URL must be a valid HTTPS URL pointing to an .ass file')
 });
 
+const lyricsWordSchema = Joi.object({
+  text: Joi.string().required(),
+  start: Joi.number().min(0).required(),
+  end: Joi.number().min(Joi.ref('start')).required()
+    .messages({ 'number.min': 'Word end time must not be before its start time' })
+});
+
+const lyricsLineSchema = Joi.object({
+  text: Joi.string().allow('').optional(),
+  start: Joi.number().min(0).optional(),
+  end: Joi.number().greater(Joi.ref('start')).optional()
+    .messages({ 'number.greater': 'Lyrics line end time must be after its start time' }),
+  words: Joi.array().items(lyricsWordSchema).min(1).optional()
+})
+  .or('words', 'start')
+  .and('start', 'end')
+  .messages({
+    'object.missing': 'Lyrics lines need words or start/end times',
+    'object.and': 'Lyrics lines need both start and end times'
+  });
+
+const lyricsSchema = Joi.object({
+  format: Joi.string()
+    .valid(...LYRICS_FORMATS)
+    .required()
+    .messages({ 'any.only': `Lyrics format must be one of: ${LYRICS_FORMATS.join(', ')}` }),
+  url: Joi.string().uri({ scheme: ['https'] })
+    .messages({ 'string.uriCustomScheme': 'Lyrics URL must be a valid HTTPS URL' }),
+  content: Joi.string().max(1024 * 1024),
+  lines: Joi.array().items(lyricsLineSchema).min(1).max(2000)
+    .when('format', { not: 'json', then: Joi.forbidden() })
+    .messages({ 'any.unknown': 'Inline lyrics lines are only supported for the json format' }),
+  preset: Joi.string()
+    .valid(...SUBTITLE_PRESETS)
+    .default('playful')
+    .messages({ 'any.only': `Subtitle preset must be one of: ${SUBTITLE_PRESETS.join(', ')}` }),
+  karaoke: Joi.boolean().default(true)
+})
+  .xor('url', 'content', 'lines')
+  .messages({
+    'object.missing': 'Lyrics need one of url, content or lines',
+    'object.xor': 'Lyrics accept only one of url, content or lines'
+  });
+
+const captionsSchema = Joi.object({
+  softTrack: Joi.boolean().default(true),
+  sidecars: Joi.array()
+    .items(Joi.string().valid(...CAPTION_FORMATS))
+    .unique()
+    .default([...CAPTION_FORMATS])
+    .messages({
+      'any.only': `Caption sidecar formats must be any of: ${CAPTION_FORMATS.join(', ')}`,
+      'array.unique': 'Caption sidecar formats must not repeat'
+    }),
+  language: Joi.string()
+    .pattern(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/)
+    .default('en')
+    .messages({ 'string.pattern.base': 'Caption language must be a BCP 47 language code such as "en" or "pt-BR"' }),
+  label: Joi.string().max(100).default('Lyrics')
+});
+
+const visualizerSchema = Joi.object({
+  style: Joi.string()
+    .valid(...VISUALIZER_STYLES)
+    .required()
+    .messages({ 'any.only': `Visualizer style must be one of: ${VISUALIZER_STYLES.join(', ')}` }),
+  x: shareSchema('Visualizer x'),
+  y: shareSchema('Visualizer y'),
+  width: shareSchema('Visualizer width').greater(0),
+  height: shareSchema('Visualizer height').greater(0),
+  color: Joi.string()
+    .pattern(/^#[0-9a-fA-F]{6}$/)
+    .default('#FFFFFF')
+    .messages({ 'string.pattern.base': 'Visualizer color must be a #RRGGBB hex color' }),
+  opacity: shareSchema('Visualizer opacity').default(0.8)
+});
+
+const brandingLogoSchema = Joi.object({
+  url: Joi.string().uri().required()
+    .pattern(/^https:\/\/.*\.(jpe?g|png|webp)$/i, 'Logo URL must be a valid HTTPS URL pointing to a jpg, png or webp image'),
+  position: Joi.string()
+    .valid(...LOGO_POSITIONS)
+    .default('bottom-right')
+    .messages({ 'any.only': `Logo position must be one of: ${LOGO_POSITIONS.join(', ')}` }),
+  margin: Joi.number().min(0).max(0.25).default(0.03)
+    .messages({
+      'number.min': 'Logo margin must be between 0 and 0.25',
+      'number.max': 'Logo margin must be between 0 and 0.25'
+    }),
+  scale: shareSchema('Logo scale').greater(0).default(0.15),
+  opacity: shareSchema('Logo opacity').default(0.8),
+  startTime: Joi.number().min(0).default(0)
+    .messages({ 'number.min': 'Logo start time cannot be negative' }),
+  endTime: Joi.number().greater(Joi.ref('startTime'))
+    .messages({ 'number.greater': 'Logo end time must be after its start time' }),
+  aboveSubtitles: Joi.boolean().default(false)
+});
+
+const brandingSchema = Joi.object({
+  logo: brandingLogoSchema,
+  intro: videoClipSchema,
+  outro: videoClipSchema
+})
+  .or('logo', 'intro', 'outro')
+  .messages({ 'object.missing': 'Branding needs a logo, an intro or an outro' });
+
+const outputDimensionSchema = (name: string) => Joi.number()
+  .integer()
+  .min(MIN_OUTPUT_DIMENSION)
+  .max(MAX_OUTPUT_DIMENSION)
+  .multiple(2)
+  .required()
+  .messages({
+    'number.min': `Output ${name} must be between ${MIN_OUTPUT_DIMENSION} and ${MAX_OUTPUT_DIMENSION} pixels`,
+    'number.max': `Output ${name} must be between ${MIN_OUTPUT_DIMENSION} and ${MAX_OUTPUT_DIMENSION} pixels`,
+    'number.multiple': `Output ${name} must be an even number of pixels`
+  });
+
+const outputSizeSchema = Joi.object({
+  width: outputDimensionSchema('width'),
+  height: outputDimensionSchema('height')
+})
+  .custom((value, helpers) => {
+    if (value.width * value.height > MAX_OUTPUT_PIXELS) {
+      return helpers.error('outputSize.pixels');
+    }
+    return value;
+  })
+  .messages({ 'outputSize.pixels': 'Output size must not exceed 3840x2160 pixels in total' });
+
+const ASPECT_RATIOS = ['9:16', '16:9', '1:1', '4:5'];
+const RESOLUTIONS = ['720p', '1080p', '4k'];
+const COMPRESSION_LEVELS = ['balanced', 'high', 'maximum'];
+
+const aspectRatioSchema = Joi.string()
+  .valid(...ASPECT_RATIOS)
+  .messages({ 'any.only': `Output aspect ratio must be one of: ${ASPECT_RATIOS.join(', ')}` });
+
+const resolutionSchema = Joi.string()
+  .valid(...RESOLUTIONS)
+  .messages({ 'any.only': `Resolution must be one of: ${RESOLUTIONS.join(', ')}` });
+
+const compressionLevelSchema = Joi.string()
+  .valid(...COMPRESSION_LEVELS)
+  .messages({ 'any.only': `Compression level must be one of: ${COMPRESSION_LEVELS.join(', ')}` });
+
+const outputSpecSchema = Joi.object({
+  name: Joi.string()
+    .pattern(/^[a-z0-9-]+$/)
+    .max(32)
+    .optional()
+    .messages({ 'string.pattern.base': 'Output name must contain only lowercase letters, numbers, and hyphens' }),
+  aspectRatio: aspectRatioSchema.required(),
+  resolution: resolutionSchema.optional(),
+  outputSize: outputSizeSchema.optional(),
+  compressionLevel: compressionLevelSchema.optional(),
+  assFile: assFileSchema.optional()
+});
+
 export const processVideoRequestSchema = Joi.object({
   videoClips: Joi.array()
     .items(videoClipSchema)
@@ -20,10 +296,50 @@ export const processVideoRequestSchema = Joi.object({
     .required()
     .messages({ 'array.min': 'Must provide between 1 and 50 video clips', 'array.max': 'Must provide between 1 and 50 video clips' }),
   
-  assFile: assFileSchema.required(),
+  assFile: assFileSchema.optional(),
+
+  lyrics: lyricsSchema.optional(),
+
+  subtitleRelayout: Joi.boolean()
+    .default(true)
+    .optional(),
+
+  captions: captionsSchema.optional(),
   
   songUrl: Joi.string().uri().required()
     .pattern(/^https:\/\/.*\.(mp3|wav|aac|m4a)$/, 'Song URL must be a valid HTTPS URL pointing to an audio file'),
+
+  songStart: Joi.number()
+    .min(0)
+    .default(0)
+    .messages({ 'number.min': 'Song start cannot be negative' }),
+
+  songEnd: Joi.number()
+    .greater(Joi.ref('songStart'))
+    .optional()
+    .messages({ 'number.greater': 'Song end must be after the song start' }),
+
+  fadeInDuration: Joi.number()
+    .min(0)
+    .max(10)
+    .default(0)
+    .messages({
+      'number.min': 'Fade-in duration must be between 0 and 10 seconds',
+      'number.max': 'Fade-in duration must be between 0 and 10 seconds'
+    }),
+
+  fadeOutDuration: Joi.number()
+    .min(0)
+    .max(10)
+    .default(0)
+    .messages({
+      'number.min': 'Fade-out duration must be between 0 and 10 seconds',
+      'number.max': 'Fade-out duration must be between 0 and 10 seconds'
+    }),
+
+  voiceOver: voiceOverSchema.optional(),
+
+  audioMix: audioMixSchema.optional(),
   
   songId: Joi.string()
     .pattern(/^[a-zA-Z0-9-]+$/)
@@ -41,10 +357,26 @@ export const processVideoRequestSchema = Joi.object({
     .optional()
     .messages({ 'string.max': 'Song title must be less than 200 characters' }),
   
-  outputAspectRatio: Joi.string()
-    .valid('9:16', '16:9')
-    .required()
-    .messages({ 'any.only': 'Output aspect ratio must be either "9:16" or "16:9"' }),
+  outputAspectRatio: aspectRatioSchema
+    .when('outputs', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+
+  resolution: resolutionSchema
+    .default('1080p')
+    .optional(),
+
+  outputSize: outputSizeSchema.optional(),
+
+  outputs: Joi.array()
+    .items(outputSpecSchema)
+    .min(1)
+    .max(4)
+    .unique('name', { ignoreUndefined: true })
+    .optional()
+    .messages({
+      'array.min': 'Must provide between 1 and 4 outputs',
+      'array.max': 'Must provide between 1 and 4 outputs',
+      'array.unique': 'Output names must be unique'
+    }),
   
   transitionDuration: Joi.number()
     .min(0.1)
@@ -55,11 +387,9 @@ export const processVideoRequestSchema = Joi.object({
       'number.max': 'Transition duration must be between 0.1 and 5.0 seconds'
     }),
 
-  compressionLevel: Joi.string()
-    .valid('balanced', 'high', 'maximum')
+  compressionLevel: compressionLevelSchema
     .default('high')
-    .optional()
-    .messages({ 'any.only': 'Compression level must be one of: balanced, high, maximum' }),
+    .optional(),
 
   audioBitrate: Joi.number()
     .min(64)
@@ -69,8 +399,72 @@ export const processVideoRequestSchema = Joi.object({
     .messages({ 
       'number.min': 'Audio bitrate must be between 64-320 kbps',
       'number.max': 'Audio bitrate must be between 64-320 kbps'
+    }),
+
+  syncToBeat: Joi.boolean()
+    .default(false)
+    .optional(),
+
+  beatSnap: Joi.string()
+    .valid('beat', 'bar')
+    .default('beat')
+    .optional()
+    .messages({ 'any.only': 'Beat snap must be either "beat" or "bar"' }),
+
+  fillStrategy: Joi.string()
+    .valid('loop', 'freeze', 'stretch', 'fail')
+    .optional()
+    .messages({ 'any.only': 'Fill strategy must be one of: loop, freeze, stretch, fail' }),
+
+  fitMode: fitModeSchema
+    .default('stretch')
+    .optional(),
+
+  backgroundColor: colorSchema
+    .default('#000000')
+    .optional(),
+
+  visualizers: Joi.array()
+    .items(visualizerSchema)
+    .max(4)
+    .optional()
+    .messages({ 'array.max': 'At most 4 visualizer layers are supported' }),
+
+  branding: brandingSchema.optional(),
+
+  publishTo: Joi.array()
+    .items(Joi.string().valid(...PUBLISH_TARGETS))
+    .unique()
+    .default(['mux'])
+    .optional()
+    .messages({
+      'any.only': `Publish targets must be any of: ${PUBLISH_TARGETS.join(', ')}`,
+      'array.unique': 'Publish targets must not repeat'
+    }),
+
+  callbackUrl: Joi.string()
+    .uri({ scheme: ['https'] })
+    .optional()
+    // Deliveries are signed; without a secret the callback could never be sent
+    .custom((value, helpers) => (process.env.WEBHOOK_SECRET ? value : helpers.error('callbackUrl.noSecret')))
+    .messages({
+      'string.uriCustomScheme': 'Callback URL must be a valid HTTPS URL',
+      'callbackUrl.noSecret': 'Callback URL is not supported because WEBHOOK_SECRET is not configured'
     })
-});
+})
+  .oxor('assFile', 'lyrics')
+  // Subtitles come from the top level unless every output brings its own assFile
+  .custom((value, helpers) => {
+    const outputsHaveAssFiles = value.outputs?.every((output: { assFile?: unknown }) => output.assFile);
+    if (!value.assFile && !value.lyrics && !outputsHaveAssFiles) {
+      return helpers.error('object.missing');
+    }
+    return value;
+  })
+  .messages({
+    'object.missing': 'Must provide either assFile or lyrics, unless every output has its own assFile',
+    'object.oxor': 'Provide either assFile or lyrics, not both'
+  });
 
 export const validateProcessVideoRequest = (data: any) => {
   const { error, value } = processVideoRequestSchema.validate(data, {
@@ -84,7 +478,8 @@ export const validateProcessVideoRequest = (data: any) => {
       message: detail.message
     }));
     
-    throw new Error(`Validation failed: ${details.map((d: any) => `${d.field}: ${d.message}`).join('; ')}`);
+    // Whole-request rules (e.g. assFile vs. lyrics) have no field path
+    throw new Error(`Validation failed: ${details.map((d: any) => d.field ? `${d.field}: ${d.message}` : d.message).join('; ')}`);
   }
   
   return value;